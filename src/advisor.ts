@@ -0,0 +1,616 @@
+import pg from "pg";
+import { planNodes } from "./explain.js";
+import { extensionSchema, serverVersion } from "./introspection.js";
+import { formatQualifiedName, quoteIdentifier } from "./sql.js";
+import { transactionScope } from "./transactions.js";
+
+// Indexes must make the queries they help at least this much cheaper to be recommended
+const MIN_COST_REDUCTION = 0.1;
+const MAX_RECOMMENDATIONS = 10;
+// Equality columns first, then one range or sort column
+const MAX_INDEX_COLUMNS = 4;
+// Query text is shortened to this many characters in the advice
+const QUERY_PREVIEW_LENGTH = 200;
+
+// Planner cost constants used to price an index scan when hypopg isn't installed
+const SEQ_PAGE_COST = 1;
+const RANDOM_PAGE_COST = 4;
+// cpu_index_tuple_cost plus cpu_tuple_cost
+const INDEX_TUPLE_COST = 0.015;
+// Pages read descending the btree to the first match
+const INDEX_DESCENT_PAGES = 3;
+
+// A query of the workload; weight is how many times it ran according to
+// pg_stat_statements, or 1 for queries passed in
+export interface WorkloadQuery {
+  sql: string;
+  weight: number;
+}
+
+export interface SkippedQuery {
+  sql: string;
+  reason: string;
+}
+
+export interface WriteOverhead {
+  existingIndexes: number;
+  // Measured by hypopg, or estimated from column statistics; null without them
+  estimatedSizeBytes: number | null;
+  // Row changes counted since the table's statistics were last reset
+  inserts: number;
+  updates: number;
+  hotUpdates: number;
+  deletes: number;
+  summary: string;
+}
+
+export interface IndexRecommendation {
+  statement: string;
+  table: string;
+  columns: string[];
+  // Planner cost of the queries the index helps, weighted by how often they run
+  costReduction: { before: number; after: number; percent: number };
+  queries: { sql: string; weight: number; costBefore: number; costAfter: number }[];
+  writeOverhead: WriteOverhead;
+}
+
+export interface IndexAdvice {
+  // hypopg when the candidates were planned as hypothetical indexes,
+  // heuristic when their cost was estimated from the original plans
+  method: "hypopg" | "heuristic";
+  workload: { queries: number; planned: number; skipped: SkippedQuery[] };
+  recommendations: IndexRecommendation[];
+}
+
+interface PlannedQuery {
+  query: WorkloadQuery;
+  plan: any;
+  cost: number;
+}
+
+// A plan node an index on some columns of the table it scans could replace
+interface CandidateSource {
+  kind: "filter" | "join" | "sort";
+  planned: PlannedQuery;
+  scan: any;
+  columns: string[];
+  // For joins, the join node and the side whose rows would each probe the index
+  join?: any;
+  other?: any;
+}
+
+interface Candidate {
+  schema: string;
+  table: string;
+  columns: string[];
+  sources: CandidateSource[];
+}
+
+interface TableInfo {
+  kind: string;
+  pages: number;
+  rows: number;
+  columns: Set<string>;
+  indexes: { columns: string[]; usable: boolean }[];
+  widths: Map<string, number>;
+  inserts: number;
+  updates: number;
+  hotUpdates: number;
+  deletes: number;
+}
+
+interface Evaluation {
+  planned: PlannedQuery;
+  after: number;
+}
+
+// Propose indexes for a workload. Every query is planned with EXPLAIN; scans
+// an index could replace (filtered sequential scans, inner sides of nested
+// loops and sorts of a scanned table) become candidate indexes. With hypopg
+// the queries are planned again with each candidate as a hypothetical index,
+// otherwise the index scan is priced from the original plan's estimates.
+export async function adviseIndexes(
+  client: pg.ClientBase,
+  workload: WorkloadQuery[],
+  options: {
+    // Reason a query can't be planned, such as a policy denial
+    screen: (sql: string) => Promise<string | undefined>;
+    isTableAllowed: (table: { schema: string; name: string }) => boolean;
+  },
+): Promise<IndexAdvice> {
+  const version = await serverVersion(client);
+  const hypopg = await extensionSchema(client, "hypopg");
+
+  const skipped: SkippedQuery[] = [];
+  const planned: PlannedQuery[] = [];
+  for (const query of workload) {
+    const skip = (reason: string) => skipped.push({ sql: preview(query.sql), reason });
+    const reason = await options.screen(query.sql);
+    if (reason) {
+      skip(reason);
+      continue;
+    }
+    // Normalized pg_stat_statements text has $n placeholders instead of values
+    const generic = /\$\d+/.test(query.sql);
+    if (generic && version < 160000) {
+      skip("Queries with $n placeholders need EXPLAIN (GENERIC_PLAN), available from PostgreSQL 16");
+      continue;
+    }
+    try {
+      const plan = await planStatement(client, query.sql, generic);
+      planned.push({ query, plan, cost: plan["Total Cost"] });
+    } catch (error) {
+      skip(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const candidates = new Map<string, Candidate>();
+  for (const entry of planned) {
+    for (const source of candidateSources(entry)) {
+      const key = JSON.stringify([source.scan.Schema, source.scan["Relation Name"], source.columns]);
+      const candidate: Candidate = candidates.get(key) ?? {
+        schema: source.scan.Schema,
+        table: source.scan["Relation Name"],
+        columns: source.columns,
+        sources: [],
+      };
+      candidate.sources.push(source);
+      candidates.set(key, candidate);
+    }
+  }
+
+  const tables = await loadTables(client, Array.from(candidates.values()));
+  const viable = Array.from(candidates.values()).filter((candidate) => {
+    const table = tables.get(tableKey(candidate.schema, candidate.table));
+    return (
+      table !== undefined &&
+      (table.kind === "r" || table.kind === "m") &&
+      options.isTableAllowed({ schema: candidate.schema, name: candidate.table }) &&
+      candidate.columns.every((column) => table.columns.has(column)) &&
+      !table.indexes.some((index) => index.usable && covers(index.columns, candidate.columns))
+    );
+  });
+
+  const recommendations: IndexRecommendation[] = [];
+  for (const candidate of viable) {
+    const table = tables.get(tableKey(candidate.schema, candidate.table))!;
+    const { evaluations, sizeBytes } = hypopg
+      ? await evaluateHypothetically(client, hypopg, candidate, planned)
+      : { evaluations: evaluateHeuristically(candidate, table), sizeBytes: undefined };
+    const recommendation = recommend(candidate, table, evaluations, sizeBytes);
+    if (recommendation) {
+      recommendations.push(recommendation);
+    }
+  }
+
+  return {
+    method: hypopg ? "hypopg" : "heuristic",
+    workload: { queries: workload.length, planned: planned.length, skipped },
+    recommendations: rank(recommendations),
+  };
+}
+
+function preview(sql: string): string {
+  const text = sql.trim().replace(/\s+/g, " ");
+  return text.length > QUERY_PREVIEW_LENGTH ? `${text.slice(0, QUERY_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+function tableKey(schema: string, name: string): string {
+  return JSON.stringify([schema, name]);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Plan a statement without running it, in a read-only transaction (or
+// savepoint) that is rolled back
+async function planStatement(client: pg.ClientBase, sql: string, generic: boolean): Promise<any> {
+  const scope = transactionScope(client, { readOnly: true });
+  await scope.begin();
+  try {
+    const result = await client.query(`EXPLAIN (FORMAT JSON, VERBOSE${generic ? ", GENERIC_PLAN" : ""}) ${sql}`);
+    return result.rows[0]["QUERY PLAN"][0].Plan;
+  } finally {
+    await scope.rollback();
+  }
+}
+
+const IDENTIFIER = `("(?:[^"]|"")+"|[A-Za-z_][A-Za-z0-9_$]*)`;
+// Casts EXPLAIN prints after a column, such as ::text or ::character varying
+const CAST = `(?:::[\\w ."\\[\\]]+?)?`;
+const COMPARISON = /^(.+?) (= ANY|<=|>=|=|<|>) (.+)$/;
+
+function unquoteIdentifier(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// EXPLAIN VERBOSE qualifies columns with the alias, quoted when needed
+function aliasPattern(alias: string): string {
+  return `(?:${escapeRegExp(alias)}|${escapeRegExp(quoteIdentifier(alias))})`;
+}
+
+// Column of the aliased relation an expression is, as in "t.col" or "(t.col)::text"
+function columnReference(expression: string, alias: string): string | undefined {
+  const match = new RegExp(`^\\(?${aliasPattern(alias)}\\.${IDENTIFIER}\\)?${CAST}$`).exec(expression.trim());
+  return match ? unquoteIdentifier(match[1]) : undefined;
+}
+
+function mentions(expression: string, alias: string): boolean {
+  return new RegExp(`(^|[^\\w."])${aliasPattern(alias)}\\.`).test(expression);
+}
+
+// Index of the parenthesis closing the one at start, or -1
+function closingParenthesis(text: string, start: number): number {
+  let depth = 0;
+  let quoted = false;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "'") {
+      quoted = !quoted;
+    } else if (!quoted && text[i] === "(") {
+      depth++;
+    } else if (!quoted && text[i] === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function stripParentheses(expression: string): string {
+  let text = expression.trim();
+  while (text.startsWith("(") && closingParenthesis(text, 0) === text.length - 1) {
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+}
+
+// Expressions ANDed together at the top level of a plan condition; none
+// when the condition has a top-level OR, which a single index doesn't serve
+function conjuncts(condition: string): string[] {
+  const text = stripParentheses(condition);
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "'") {
+      quoted = !quoted;
+    } else if (quoted) {
+      continue;
+    } else if (text[i] === "(") {
+      depth++;
+    } else if (text[i] === ")") {
+      depth--;
+    } else if (depth === 0 && text.startsWith(" OR ", i)) {
+      return [];
+    } else if (depth === 0 && text.startsWith(" AND ", i)) {
+      parts.push(text.slice(start, i));
+      start = i + 5;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(stripParentheses);
+}
+
+// Columns of the aliased relation a condition compares with values that
+// don't come from the relation itself: constants, parameters or other tables
+function comparedColumns(condition: string, alias: string): { equality: string[]; range: string[] } {
+  const equality: string[] = [];
+  const range: string[] = [];
+  for (const part of conjuncts(condition)) {
+    const nullTest = /^(.+) IS NULL$/.exec(part);
+    if (nullTest) {
+      const column = columnReference(nullTest[1], alias);
+      if (column) {
+        equality.push(column);
+      }
+      continue;
+    }
+    const comparison = COMPARISON.exec(part);
+    if (!comparison) {
+      continue;
+    }
+    const [, left, operator, right] = comparison;
+    const leftColumn = columnReference(left, alias);
+    const [column, other] = leftColumn
+      ? [leftColumn, right]
+      : [operator === "= ANY" ? undefined : columnReference(right, alias), left];
+    if (column && !mentions(other, alias)) {
+      (operator === "=" || operator === "= ANY" ? equality : range).push(column);
+    }
+  }
+  return { equality, range };
+}
+
+// Equality columns in the order they appear, then the first range column
+function indexColumns(compared: { equality: string[]; range: string[] }): string[] {
+  const columns = Array.from(new Set(compared.equality));
+  const range = compared.range.find((column) => !columns.includes(column));
+  return (range ? [...columns, range] : columns).slice(0, MAX_INDEX_COLUMNS);
+}
+
+function isTableScan(node: any): boolean {
+  return node?.["Node Type"] === "Seq Scan" && node.Schema && node["Relation Name"];
+}
+
+// Plan nodes of a query an index could replace, with the columns it would need
+function candidateSources(planned: PlannedQuery): CandidateSource[] {
+  const sources: CandidateSource[] = [];
+  const filterColumns = (scan: any) =>
+    scan.Filter ? comparedColumns(scan.Filter, scan.Alias) : { equality: [], range: [] };
+
+  for (const { node } of planNodes(planned.plan)) {
+    const type = node["Node Type"];
+
+    if (isTableScan(node) && node.Filter) {
+      const columns = indexColumns(filterColumns(node));
+      if (columns.length > 0) {
+        sources.push({ kind: "filter", planned, scan: node, columns });
+      }
+    }
+
+    // A table a join scans whole (rescanned by a nested loop, or hashed or
+    // probed by a hash join) could instead be looked up once per row of the
+    // other side
+    const condition = type === "Nested Loop" ? node["Join Filter"] : type === "Hash Join" ? node["Hash Cond"] : undefined;
+    if (condition && node.Plans?.length === 2) {
+      for (const side of type === "Nested Loop" ? [1] : [0, 1]) {
+        const scan = ["Materialize", "Hash"].includes(node.Plans[side]["Node Type"]) ? node.Plans[side].Plans?.[0] : node.Plans[side];
+        if (!isTableScan(scan)) {
+          continue;
+        }
+        const join = comparedColumns(condition, scan.Alias);
+        const filter = filterColumns(scan);
+        if (join.equality.length + join.range.length > 0) {
+          const columns = indexColumns({
+            equality: [...join.equality, ...filter.equality],
+            range: [...join.range, ...filter.range],
+          });
+          sources.push({ kind: "join", planned, scan, columns, join: node, other: node.Plans[1 - side] });
+        }
+      }
+    }
+
+    // An index in the sort order lets the planner skip the sort, which pays off under a LIMIT
+    if ((type === "Sort" || type === "Incremental Sort") && node.Plans?.length === 1 && isTableScan(node.Plans[0])) {
+      const scan = node.Plans[0];
+      const keys = (node["Sort Key"] ?? []).map((key: string) => {
+        const match = /^(.+?)( DESC)?( NULLS (?:FIRST|LAST))?$/.exec(key);
+        return match ? { column: columnReference(match[1], scan.Alias), descending: Boolean(match[2]) } : undefined;
+      });
+      const ordered = keys.length > 0 && keys.every((key: any) => key?.column);
+      if (ordered && keys.every((key: any) => key.descending === keys[0].descending)) {
+        const columns = Array.from(
+          new Set([...filterColumns(scan).equality, ...keys.map((key: any) => key.column as string)]),
+        ).slice(0, MAX_INDEX_COLUMNS);
+        sources.push({ kind: "sort", planned, scan, columns });
+      }
+    }
+  }
+  return sources;
+}
+
+// Whether an index's leading columns are the candidate's, in any order
+function covers(indexColumns: string[], columns: string[]): boolean {
+  const leading = new Set(indexColumns.slice(0, columns.length));
+  return leading.size === columns.length && columns.every((column) => leading.has(column));
+}
+
+// Size, columns, indexes, column widths and write counts of the candidates' tables
+async function loadTables(client: pg.ClientBase, candidates: Candidate[]): Promise<Map<string, TableInfo>> {
+  const tables = new Map<string, TableInfo>();
+  if (candidates.length === 0) {
+    return tables;
+  }
+  const params = [candidates.map((candidate) => candidate.schema), candidates.map((candidate) => candidate.table)];
+  const relations = `unnest($1::text[], $2::text[]) AS t(schema, name)`;
+
+  const result = await client.query(
+    `SELECT DISTINCT n.nspname AS schema, c.relname AS name, c.relkind AS kind, c.relpages AS pages,
+            greatest(c.reltuples, 0)::bigint AS rows,
+            array(SELECT a.attname::text FROM pg_attribute a
+                  WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped) AS columns,
+            coalesce(s.n_tup_ins, 0) AS inserts, coalesce(s.n_tup_upd, 0) AS updates,
+            coalesce(s.n_tup_hot_upd, 0) AS hot_updates, coalesce(s.n_tup_del, 0) AS deletes
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     JOIN ${relations} ON t.schema = n.nspname AND t.name = c.relname
+     LEFT JOIN pg_stat_all_tables s ON s.relid = c.oid`,
+    params,
+  );
+  for (const row of result.rows) {
+    tables.set(tableKey(row.schema, row.name), {
+      kind: row.kind,
+      pages: row.pages,
+      rows: Number(row.rows),
+      columns: new Set(row.columns),
+      indexes: [],
+      widths: new Map(),
+      inserts: Number(row.inserts),
+      updates: Number(row.updates),
+      hotUpdates: Number(row.hot_updates),
+      deletes: Number(row.deletes),
+    });
+  }
+
+  // Key columns only; expressions come back empty and never match a column
+  const indexes = await client.query(
+    `SELECT DISTINCT i.indexrelid, n.nspname AS schema, c.relname AS name,
+            i.indisvalid AND am.amname = 'btree' AND i.indpred IS NULL AS usable,
+            array(SELECT coalesce(a.attname::text, '')
+                  FROM unnest((i.indkey::int2[])[0:i.indnkeyatts - 1]) WITH ORDINALITY AS k(attnum, position)
+                  LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = k.attnum
+                  ORDER BY k.position) AS columns
+     FROM pg_index i
+     JOIN pg_class c ON c.oid = i.indrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     JOIN pg_class ic ON ic.oid = i.indexrelid
+     JOIN pg_am am ON am.oid = ic.relam
+     JOIN ${relations} ON t.schema = n.nspname AND t.name = c.relname`,
+    params,
+  );
+  for (const row of indexes.rows) {
+    tables.get(tableKey(row.schema, row.name))?.indexes.push({ columns: row.columns, usable: row.usable });
+  }
+
+  const widths = await client.query(
+    `SELECT DISTINCT s.schemaname AS schema, s.tablename AS name, s.attname AS column, s.avg_width
+     FROM pg_stats s
+     JOIN ${relations} ON t.schema = s.schemaname AND t.name = s.tablename
+     WHERE NOT s.inherited`,
+    params,
+  );
+  for (const row of widths.rows) {
+    tables.get(tableKey(row.schema, row.name))?.widths.set(row.column, row.avg_width);
+  }
+  return tables;
+}
+
+// Estimated cost of fetching rows through a btree index with a bitmap heap
+// scan: the heap pages the rows are spread over are read in physical order,
+// costing less per page the larger the share of the table they are
+function indexScanCost(rows: number, pages: number): number {
+  const tablePages = Math.max(pages, 1);
+  const fetched = tablePages * (1 - Math.exp(-rows / tablePages));
+  const pageCost = RANDOM_PAGE_COST - (RANDOM_PAGE_COST - SEQ_PAGE_COST) * Math.sqrt(fetched / tablePages);
+  return RANDOM_PAGE_COST * INDEX_DESCENT_PAGES + fetched * pageCost + INDEX_TUPLE_COST * rows;
+}
+
+// Cost of each helped query with the index, priced from the original plans.
+// Sorts aren't priced: whether an ordered scan wins depends on the LIMIT.
+function evaluateHeuristically(candidate: Candidate, table: TableInfo): Evaluation[] {
+  const savings = new Map<PlannedQuery, number>();
+  for (const source of candidate.sources) {
+    let saving = 0;
+    if (source.kind === "filter") {
+      saving = source.scan["Total Cost"] - indexScanCost(source.scan["Plan Rows"], table.pages);
+    } else if (source.kind === "join") {
+      // As a nested loop probing the index once per row of the other side
+      const loops = Math.max(source.other["Plan Rows"], 1);
+      const probes = source.other["Total Cost"] + loops * indexScanCost(source.join["Plan Rows"] / loops, table.pages);
+      saving = source.join["Total Cost"] - probes;
+    }
+    // A query scanning the table several ways benefits from the best of them
+    savings.set(source.planned, Math.max(savings.get(source.planned) ?? 0, saving));
+  }
+  return Array.from(savings, ([planned, saving]) => ({ planned, after: Math.max(planned.cost - saving, 0) }));
+}
+
+// Cost of every query reading the table when the planner is given the
+// candidate as a hypothetical index, counting only plans that use it
+async function evaluateHypothetically(
+  client: pg.ClientBase,
+  hypopg: string,
+  candidate: Candidate,
+  planned: PlannedQuery[],
+): Promise<{ evaluations: Evaluation[]; sizeBytes: number }> {
+  const definition =
+    `CREATE INDEX ON ${formatQualifiedName({ schema: candidate.schema, name: candidate.table })} ` +
+    `(${candidate.columns.map(quoteIdentifier).join(", ")})`;
+  const created = await client.query(`SELECT indexrelid, indexname FROM ${hypopg}.hypopg_create_index($1)`, [definition]);
+  const { indexrelid, indexname } = created.rows[0];
+  try {
+    const size = await client.query(`SELECT ${hypopg}.hypopg_relation_size($1) AS size`, [indexrelid]);
+    const evaluations: Evaluation[] = [];
+    for (const entry of planned) {
+      const nodes = planNodes(entry.plan).map(({ node }) => node);
+      if (!nodes.some((node) => node.Schema === candidate.schema && node["Relation Name"] === candidate.table)) {
+        continue;
+      }
+      const plan = await planStatement(client, entry.query.sql, /\$\d+/.test(entry.query.sql));
+      if (planNodes(plan).some(({ node }) => node["Index Name"] === indexname)) {
+        evaluations.push({ planned: entry, after: plan["Total Cost"] });
+      }
+    }
+    return { evaluations, sizeBytes: Number(size.rows[0].size) };
+  } finally {
+    // Hypothetical indexes live in the session, not the transaction
+    await client.query(`SELECT ${hypopg}.hypopg_drop_index($1)`, [indexrelid]);
+  }
+}
+
+// Btree size from the average column widths: tuple header, data aligned to
+// 8 bytes and line pointer per row, leaf pages 90% full, plus the metapage
+function estimateIndexSize(table: TableInfo, columns: string[]): number | null {
+  if (!columns.every((column) => table.widths.has(column))) {
+    return null;
+  }
+  const width = columns.reduce((total, column) => total + table.widths.get(column)!, 0);
+  const entry = 8 + Math.ceil(width / 8) * 8 + 4;
+  return (Math.ceil((table.rows * entry) / (8152 * 0.9)) + 1) * 8192;
+}
+
+function recommend(
+  candidate: Candidate,
+  table: TableInfo,
+  evaluations: Evaluation[],
+  sizeBytes: number | undefined,
+): IndexRecommendation | undefined {
+  const helped = evaluations.filter(({ planned, after }) => after < planned.cost);
+  const before = helped.reduce((total, { planned }) => total + planned.cost * planned.query.weight, 0);
+  const after = helped.reduce((total, { planned, after }) => total + after * planned.query.weight, 0);
+  if (before === 0 || (before - after) / before < MIN_COST_REDUCTION) {
+    return undefined;
+  }
+
+  const qualified = formatQualifiedName({ schema: candidate.schema, name: candidate.table });
+  const columns = candidate.columns.map(quoteIdentifier).join(", ");
+  const nonHot = Math.max(table.updates - table.hotUpdates, 0);
+  return {
+    statement: `CREATE INDEX CONCURRENTLY ON ${qualified} (${columns});`,
+    table: `${candidate.schema}.${candidate.table}`,
+    columns: candidate.columns,
+    costReduction: { before: round(before), after: round(after), percent: round(((before - after) / before) * 100) },
+    queries: helped.map(({ planned, after }) => ({
+      sql: preview(planned.query.sql),
+      weight: planned.query.weight,
+      costBefore: round(planned.cost),
+      costAfter: round(after),
+    })),
+    writeOverhead: {
+      existingIndexes: table.indexes.length,
+      estimatedSizeBytes: sizeBytes ?? estimateIndexSize(table, candidate.columns),
+      inserts: table.inserts,
+      updates: table.updates,
+      hotUpdates: table.hotUpdates,
+      deletes: table.deletes,
+      summary:
+        `Adds an index entry for each insert and each update that isn't HOT (${table.inserts} inserts and ${nonHot} ` +
+        `non-HOT updates since statistics were reset) on top of the table's ${table.indexes.length} existing ` +
+        `index${table.indexes.length === 1 ? "" : "es"}. Updates changing ${candidate.columns.join(", ")} can no longer be HOT.`,
+    },
+  };
+}
+
+// Biggest saving first. An index whose columns lead one already recommended
+// is left out, and the queries it helps are credited to the wider index.
+function rank(recommendations: IndexRecommendation[]): IndexRecommendation[] {
+  const saved = (recommendation: IndexRecommendation) =>
+    recommendation.costReduction.before - recommendation.costReduction.after;
+  const ranked: IndexRecommendation[] = [];
+  for (const recommendation of recommendations.sort((a, b) => saved(b) - saved(a))) {
+    const wider = ranked.find(
+      (chosen) =>
+        chosen.table === recommendation.table &&
+        recommendation.columns.every((column, index) => chosen.columns[index] === column),
+    );
+    if (wider) {
+      const { costReduction } = wider;
+      for (const query of recommendation.queries) {
+        if (!wider.queries.some((helped) => helped.sql === query.sql && helped.weight === query.weight)) {
+          wider.queries.push(query);
+          costReduction.before = round(costReduction.before + query.costBefore * query.weight);
+          costReduction.after = round(costReduction.after + query.costAfter * query.weight);
+        }
+      }
+      costReduction.percent = round(((costReduction.before - costReduction.after) / costReduction.before) * 100);
+    } else if (ranked.length < MAX_RECOMMENDATIONS) {
+      ranked.push(recommendation);
+    }
+  }
+  return ranked.sort((a, b) => saved(b) - saved(a));
+}
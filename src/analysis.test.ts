@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeStatement, isFunctionDenied } from "./analysis.js";
+import { SqlValidationError } from "./sql.js";
+
+async function kind(sql: string): Promise<string> {
+  return (await analyzeStatement(sql)).kind;
+}
+
+async function rejection(sql: string, rules = {}): Promise<SqlValidationError> {
+  try {
+    await analyzeStatement(sql, rules);
+  } catch (error) {
+    assert.ok(error instanceof SqlValidationError);
+    return error;
+  }
+  assert.fail(`expected ${sql} to be rejected`);
+}
+
+describe("analyzeStatement", () => {
+  it("classifies plain reads", async () => {
+    assert.equal(await kind("SELECT * FROM users WHERE id = 1"), "read");
+    assert.equal(await kind("WITH t AS (SELECT 1) SELECT * FROM t"), "read");
+    assert.equal(await kind("SHOW search_path"), "read");
+    assert.equal(await kind("EXPLAIN SELECT * FROM users"), "read");
+  });
+
+  it("classifies writes and DDL", async () => {
+    assert.equal(await kind("INSERT INTO users (name) VALUES ('a')"), "write");
+    assert.equal(await kind("UPDATE users SET name = 'a'"), "write");
+    assert.equal(await kind("DELETE FROM users"), "write");
+    assert.equal(await kind("CREATE TABLE t (id int)"), "write");
+    assert.equal(await kind("SET search_path = public"), "write");
+  });
+
+  it("treats CTEs that modify data as writes", async () => {
+    assert.equal(await kind("WITH d AS (DELETE FROM users RETURNING *) SELECT * FROM d"), "write");
+    assert.equal(await kind("WITH i AS (INSERT INTO users (name) VALUES ('a') RETURNING id) SELECT id FROM i"), "write");
+  });
+
+  it("lists the statements that modify data", async () => {
+    assert.deepEqual((await analyzeStatement("SELECT * FROM users")).writes, []);
+    assert.deepEqual((await analyzeStatement("UPDATE users SET name = 'a'")).writes, ["UpdateStmt"]);
+    assert.deepEqual(
+      (await analyzeStatement("WITH d AS (DELETE FROM users RETURNING *) INSERT INTO archive SELECT * FROM d")).writes,
+      ["InsertStmt", "DeleteStmt"],
+    );
+  });
+
+  it("treats SELECT INTO and row locks as writes", async () => {
+    assert.equal(await kind("SELECT * INTO copy FROM users"), "write");
+    assert.equal(await kind("SELECT * FROM users FOR UPDATE"), "write");
+    assert.equal(await kind("SELECT * FROM users FOR SHARE"), "write");
+  });
+
+  it("treats EXPLAIN ANALYZE as only as safe as its statement", async () => {
+    assert.equal(await kind("EXPLAIN ANALYZE SELECT * FROM users"), "read");
+    assert.equal(await kind("EXPLAIN ANALYZE DELETE FROM users"), "write");
+    assert.equal(await kind("EXPLAIN (ANALYZE false) DELETE FROM users"), "read");
+    assert.equal(await kind("EXPLAIN (ANALYZE off) DELETE FROM users"), "read");
+    assert.equal(await kind("EXPLAIN (ANALYZE 0) DELETE FROM users"), "read");
+    assert.equal(await kind("EXPLAIN (ANALYZE on) DELETE FROM users"), "write");
+    assert.equal(await kind("EXPLAIN (ANALYZE 1) DELETE FROM users"), "write");
+    assert.equal(await kind("EXPLAIN (ANALYZE, BUFFERS) UPDATE users SET name = 'a'"), "write");
+  });
+
+  it("rejects anything but exactly one statement", async () => {
+    assert.equal((await rejection("SELECT 1; DELETE FROM users")).code, "statement_rejected");
+    assert.equal((await rejection("   ")).code, "statement_rejected");
+    assert.equal((await rejection(";")).code, "statement_rejected");
+  });
+
+  it("reports syntax errors", async () => {
+    assert.equal((await rejection("SELEC 1")).code, "syntax_error");
+  });
+
+  it("rejects denied functions anywhere in the statement", async () => {
+    const error = await rejection("SELECT name FROM users WHERE EXISTS (SELECT pg_sleep(10))");
+    assert.equal(error.code, "statement_rejected");
+    assert.match(error.message, /pg_sleep/);
+    await rejection("SELECT pg_catalog.pg_terminate_backend(42)");
+    await rejection("SELECT lower(name) FROM users", { deniedFunctions: ["lower"] });
+  });
+
+  it("lets allowedFunctions exempt default denials", async () => {
+    const analysis = await analyzeStatement("SELECT pg_sleep(1)", { allowedFunctions: ["pg_sleep"] });
+    assert.deepEqual(analysis.functions, ["pg_sleep"]);
+  });
+
+  it("lists the relations a statement names", async () => {
+    const analysis = await analyzeStatement(
+      'SELECT (SELECT count(*) FROM Sales."Orders") FROM users u JOIN users v USING (id), LATERAL (TABLE audit) a',
+    );
+    assert.deepEqual(analysis.relations, [{ schema: "sales", name: "Orders" }, { name: "users" }, { name: "audit" }]);
+    assert.deepEqual((await analyzeStatement("DELETE FROM a USING b")).relations, [{ name: "a" }, { name: "b" }]);
+  });
+
+  it("leaves out references to the statement's own CTEs", async () => {
+    const relations = async (sql: string) => (await analyzeStatement(sql)).relations;
+    assert.deepEqual(await relations("WITH t AS (SELECT 1) SELECT * FROM t, public.t"), [{ schema: "public", name: "t" }]);
+    assert.deepEqual(await relations("WITH RECURSIVE t AS (SELECT 1 UNION ALL SELECT * FROM t) SELECT * FROM t"), []);
+    // A CTE is only visible to later CTEs and to its own statement
+    assert.deepEqual(await relations("WITH audit AS (SELECT * FROM audit) SELECT * FROM audit"), [{ name: "audit" }]);
+    assert.deepEqual(await relations("SELECT * FROM (WITH x AS (SELECT 1) SELECT * FROM x) s, x"), [{ name: "x" }]);
+  });
+});
+
+describe("isFunctionDenied", () => {
+  it("matches unqualified patterns in any schema and prefixes ending in *", () => {
+    assert.equal(isFunctionDenied("pg_catalog.pg_read_file"), true);
+    assert.equal(isFunctionDenied("dblink_exec"), true);
+    assert.equal(isFunctionDenied("table_to_xml"), true);
+    assert.equal(isFunctionDenied("lower"), false);
+  });
+
+  it("keeps explicit denials over exemptions", () => {
+    assert.equal(isFunctionDenied("pg_sleep", { allowedFunctions: ["pg_sleep"], deniedFunctions: ["pg_sleep"] }), true);
+  });
+});
@@ -0,0 +1,243 @@
+import { parse } from "libpg-query";
+import { QualifiedName, SqlValidationError } from "./sql.js";
+
+export interface StatementAnalysis {
+  // "read" statements can run inside a READ ONLY transaction
+  kind: "read" | "write";
+  // Parse node name of the top-level statement, e.g. SelectStmt
+  statementType: string;
+  // Every function called anywhere in the statement, schema-qualified when written so
+  functions: string[];
+  // Parse node names of the statements that modify data, the top-level
+  // statement or ones nested in CTEs, e.g. ["DeleteStmt"]
+  writes: string[];
+  // Every table, view or other relation the statement names, as written;
+  // references to the statement's own CTEs are left out
+  relations: QualifiedName[];
+}
+
+export interface FunctionRules {
+  // Extra patterns to refuse on top of DEFAULT_DENIED_FUNCTIONS
+  deniedFunctions?: string[];
+  // Patterns exempted from DEFAULT_DENIED_FUNCTIONS
+  allowedFunctions?: string[];
+}
+
+// Functions that act on the server, the file system or other connections, or
+// that run SQL text the parser can't see. Patterns may end in "*".
+export const DEFAULT_DENIED_FUNCTIONS = [
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "pg_rotate_logfile",
+  "pg_promote",
+  "pg_switch_wal",
+  "pg_create_restore_point",
+  "pg_logical_emit_message",
+  "pg_read_file",
+  "pg_read_binary_file",
+  "pg_stat_file",
+  "pg_ls_*",
+  "pg_file_*",
+  "lo_import",
+  "lo_export",
+  "dblink*",
+  "pg_sleep*",
+  "pg_advisory_*",
+  "pg_try_advisory_*",
+  "set_config",
+  "query_to_xml*",
+  "cursor_to_xml*",
+  "table_to_xml*",
+  "schema_to_xml*",
+  "database_to_xml*",
+  "pg_notify",
+];
+
+// Statement types that never modify data
+const READ_STATEMENTS = new Set(["SelectStmt", "VariableShowStmt"]);
+// Nodes that make an otherwise read-only statement (e.g. a CTE) modify data
+const WRITE_NODES = new Set(["InsertStmt", "UpdateStmt", "DeleteStmt", "MergeStmt"]);
+
+function matchesFunctionPattern(pattern: string, name: string): boolean {
+  const normalized = pattern.toLowerCase();
+  // Unqualified patterns match the function in any schema
+  const target = normalized.includes(".") ? name : name.split(".").pop()!;
+  return normalized.endsWith("*")
+    ? target.startsWith(normalized.slice(0, -1))
+    : target === normalized;
+}
+
+export function isFunctionDenied(name: string, rules: FunctionRules = {}): boolean {
+  const lowered = name.toLowerCase();
+  const denied = [...DEFAULT_DENIED_FUNCTIONS, ...(rules.deniedFunctions ?? [])];
+  if (!denied.some((pattern) => matchesFunctionPattern(pattern, lowered))) {
+    return false;
+  }
+  // Explicit denials win over exemptions
+  if (rules.deniedFunctions?.some((pattern) => matchesFunctionPattern(pattern, lowered))) {
+    return true;
+  }
+  return !rules.allowedFunctions?.some((pattern) => matchesFunctionPattern(pattern, lowered));
+}
+
+// Walk a parse tree, calling visit for every node with its node type
+function walk(node: unknown, visit: (type: string, value: any) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, visit));
+    return;
+  }
+  if (node === null || typeof node !== "object") {
+    return;
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (/^[A-Z]/.test(key) && value && typeof value === "object") {
+      visit(key, value);
+    }
+    walk(value, visit);
+  }
+}
+
+function functionName(funcCall: any): string {
+  return (funcCall.funcname ?? [])
+    .map((part: any) => part.String?.sval ?? "")
+    .filter((part: string) => part.length > 0)
+    .join(".");
+}
+
+// Collect the relations a parse tree names. An unqualified name that matches
+// a CTE in scope refers to the CTE: a WITH list is visible to the statement it
+// belongs to, to later CTEs in the list and, when RECURSIVE, to every CTE in it.
+function collectRelations(node: unknown, ctes: Set<string>, relations: Map<string, QualifiedName>): void {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectRelations(child, ctes, relations));
+    return;
+  }
+  if (node === null || typeof node !== "object") {
+    return;
+  }
+  const { withClause, ...rest } = node as Record<string, any>;
+  let scope = ctes;
+  if (withClause?.ctes) {
+    const definitions = withClause.ctes.map((cte: any) => cte.CommonTableExpr ?? {});
+    const names: string[] = definitions.map((cte: any) => cte.ctename);
+    definitions.forEach((cte: any, index: number) => {
+      const visible = withClause.recursive ? names : names.slice(0, index);
+      collectRelations(cte.ctequery, new Set([...ctes, ...visible]), relations);
+    });
+    scope = new Set([...ctes, ...names]);
+  }
+  for (const [key, value] of Object.entries(rest)) {
+    // FROM items are wrapped in a RangeVar node; statement targets such as
+    // INSERT's relation are not
+    const range = key === "RangeVar" || key === "relation" ? value : undefined;
+    if (typeof range?.relname === "string" && (range.schemaname || !scope.has(range.relname))) {
+      const name: QualifiedName = range.schemaname
+        ? { schema: range.schemaname, name: range.relname }
+        : { name: range.relname };
+      relations.set(`${name.schema ?? ""}.${name.name}`, name);
+    }
+    collectRelations(value, scope, relations);
+  }
+}
+
+// Whether a boolean option such as EXPLAIN's ANALYZE is on. The parser keeps
+// its value as written (ANALYZE, ANALYZE false, ANALYZE off, ANALYZE 0), so
+// only the spellings PostgreSQL reads as false turn it off.
+function isOptionEnabled(arg: any): boolean {
+  if (arg?.Integer) {
+    return (arg.Integer.ival ?? 0) !== 0;
+  }
+  const value = arg?.String?.sval ?? arg?.Boolean?.boolval;
+  if (typeof value === "boolean") {
+    return value;
+  }
+  return typeof value !== "string" || !/^(f|fa|fal|fals|false|n|no|of|off|0)$/i.test(value);
+}
+
+function isReadStatement(type: string, statement: any): boolean {
+  if (type === "ExplainStmt") {
+    // EXPLAIN ANALYZE executes the statement, so it is only as safe as the statement
+    const analyze = (statement.options ?? []).some(
+      (option: any) => option.DefElem?.defname === "analyze" && isOptionEnabled(option.DefElem?.arg),
+    );
+    const [innerType, inner] = Object.entries(statement.query ?? {})[0] ?? [];
+    return !analyze || (innerType !== undefined && isReadStatement(innerType, inner));
+  }
+  if (!READ_STATEMENTS.has(type)) {
+    return false;
+  }
+  // SELECT ... INTO creates a table and FOR UPDATE/SHARE takes row locks
+  if (type === "SelectStmt" && (statement.intoClause || statement.lockingClause)) {
+    return false;
+  }
+  let writes = false;
+  walk(statement, (nodeType) => {
+    if (WRITE_NODES.has(nodeType)) {
+      writes = true;
+    }
+  });
+  return !writes;
+}
+
+// Parse a statement with the PostgreSQL grammar and describe what it does.
+// Anything other than exactly one statement, or a call to a denied function,
+// is refused with a SqlValidationError explaining why.
+export async function analyzeStatement(sql: string, rules: FunctionRules = {}): Promise<StatementAnalysis> {
+  if (typeof sql !== "string" || sql.trim().length === 0) {
+    throw new SqlValidationError("SQL statement is required", "sql", "statement_rejected");
+  }
+
+  let tree: any;
+  try {
+    tree = await parse(sql);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SqlValidationError(`SQL could not be parsed: ${message}`, "sql", "syntax_error");
+  }
+
+  const statements = tree.stmts ?? [];
+  if (statements.length !== 1) {
+    throw new SqlValidationError(
+      `Exactly one SQL statement is allowed per call, found ${statements.length}`,
+      "sql",
+      "statement_rejected",
+    );
+  }
+
+  const [statementType, statement] = Object.entries(statements[0].stmt ?? {})[0] ?? ["Unknown", {}];
+
+  const functions = new Set<string>();
+  walk(statement, (nodeType, value) => {
+    if (nodeType === "FuncCall") {
+      functions.add(functionName(value));
+    }
+  });
+
+  const denied = Array.from(functions).filter((name) => isFunctionDenied(name, rules));
+  if (denied.length > 0) {
+    throw new SqlValidationError(
+      `Statement calls function(s) that are not allowed: ${denied.join(", ")}`,
+      "sql",
+      "statement_rejected",
+    );
+  }
+
+  const writes = new Set<string>(WRITE_NODES.has(statementType) ? [statementType] : []);
+  walk(statement, (nodeType) => {
+    if (WRITE_NODES.has(nodeType)) {
+      writes.add(nodeType);
+    }
+  });
+
+  const relations = new Map<string, QualifiedName>();
+  collectRelations(statement, new Set(), relations);
+
+  return {
+    kind: isReadStatement(statementType, statement) ? "read" : "write",
+    statementType,
+    functions: Array.from(functions),
+    writes: Array.from(writes),
+    relations: Array.from(relations.values()),
+  };
+}
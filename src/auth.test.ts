@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { AuthenticationError, Authenticator } from "./auth.js";
+
+const SECRET = "test-secret";
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function jwt(payload: unknown, header: unknown = { alg: "HS256", typ: "JWT" }): string {
+  const signed = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  return `${signed}.${base64Url(createHmac("sha256", SECRET).update(signed).digest())}`;
+}
+
+function bearer(token: string) {
+  return { authorization: `Bearer ${token}` };
+}
+
+const authenticator = new Authenticator({
+  jwt: { secret: SECRET },
+  bearerTokens: [{ token: "reader-token", principal: "reader" }],
+  principals: { reader: { databases: ["main"], tools: ["query"] } },
+});
+
+describe("Authenticator", () => {
+  it("resolves configured principals", () => {
+    assert.deepEqual(authenticator.authenticate(bearer("reader-token")), { id: "reader", databases: ["main"], tools: ["query"] });
+    assert.equal(authenticator.authenticate(bearer(jwt({ sub: "reader" }))).id, "reader");
+  });
+
+  it("rejects signed tokens naming an unknown principal", () => {
+    assert.throws(() => authenticator.authenticate(bearer(jwt({ sub: "admin" }))), AuthenticationError);
+  });
+
+  it("doesn't resolve principals inherited from Object.prototype", () => {
+    for (const sub of ["constructor", "__proto__", "toString", "hasOwnProperty"]) {
+      assert.throws(() => authenticator.authenticate(bearer(jwt({ sub }))), AuthenticationError, sub);
+    }
+  });
+
+  it("rejects tokens and keys referencing inherited principals at startup", () => {
+    assert.throws(
+      () => new Authenticator({ apiKeys: [{ key: "k", principal: "constructor" }], principals: {} }),
+      /unknown principal 'constructor'/,
+    );
+  });
+
+  it("rejects signed tokens whose header or payload isn't a JSON object", () => {
+    for (const token of [jwt(null), jwt(5), jwt("reader"), jwt(["reader"]), jwt({ sub: "reader" }, null)]) {
+      assert.throws(() => authenticator.authenticate(bearer(token)), { name: "AuthenticationError", message: "Malformed JWT" });
+    }
+  });
+
+  it("rejects bad signatures", () => {
+    const token = jwt({ sub: "reader" });
+    assert.throws(() => authenticator.authenticate(bearer(`${token.slice(0, -2)}xx`)), /signature/);
+  });
+});
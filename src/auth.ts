@@ -0,0 +1,206 @@
+import { createHmac, createHash, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import type { IncomingHttpHeaders } from "http";
+import { PolicyViolationError } from "./policy.js";
+
+// Authentication settings declared in databases.json under "auth"
+export interface AuthConfig {
+  bearerTokens?: Array<{ token: string; principal: string }>;
+  apiKeys?: Array<{ key: string; principal: string }>;
+  jwt?: JwtConfig;
+  principals: Record<string, PrincipalConfig>;
+}
+
+export interface JwtConfig {
+  // Shared HMAC key, given inline or read from a file
+  secret?: string;
+  secretFile?: string;
+  algorithms?: Array<"HS256" | "HS384" | "HS512">;
+  issuer?: string;
+  audience?: string;
+  // Claim holding the principal name, "sub" by default
+  principalClaim?: string;
+}
+
+// What a principal may use. Omitted lists mean "everything".
+export interface PrincipalConfig {
+  databases?: string[];
+  tools?: string[];
+}
+
+export interface Principal extends PrincipalConfig {
+  id: string;
+}
+
+// Raised when a request cannot be authenticated. Mapped to HTTP 401.
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+const JWT_HASHES: Record<string, string> = {
+  HS256: "sha256",
+  HS384: "sha384",
+  HS512: "sha512",
+};
+
+// Compare secrets in constant time regardless of their length
+function secretsMatch(expected: string, actual: string): boolean {
+  const a = createHash("sha256").update(expected).digest();
+  const b = createHash("sha256").update(actual).digest();
+  return timingSafeEqual(a, b);
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function decodeBase64Url(segment: string): Buffer {
+  return Buffer.from(segment.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+export class Authenticator {
+  private readonly jwtSecret?: Buffer;
+  // Own keys of the principals map only, so that names such as "constructor"
+  // or "__proto__" don't resolve to Object.prototype members
+  private readonly principals: Map<string, PrincipalConfig>;
+
+  constructor(private readonly config: AuthConfig) {
+    if (!config.principals || typeof config.principals !== "object") {
+      throw new Error("auth requires a 'principals' map");
+    }
+    this.principals = new Map(Object.entries(config.principals));
+    if (config.jwt) {
+      const secret = config.jwt.secretFile
+        ? readFileSync(config.jwt.secretFile, "utf8").trim()
+        : config.jwt.secret;
+      if (!secret) {
+        throw new Error("auth.jwt requires either 'secret' or 'secretFile'");
+      }
+      this.jwtSecret = Buffer.from(secret, "utf8");
+    }
+
+    const referenced = [
+      ...(config.bearerTokens ?? []).map((entry) => entry.principal),
+      ...(config.apiKeys ?? []).map((entry) => entry.principal),
+    ];
+    for (const principal of referenced) {
+      if (!this.principals.has(principal)) {
+        throw new Error(`auth references unknown principal '${principal}'`);
+      }
+    }
+  }
+
+  // Identify the caller from the Authorization or X-API-Key header
+  authenticate(headers: IncomingHttpHeaders): Principal {
+    const apiKey = headers["x-api-key"];
+    if (typeof apiKey === "string" && apiKey.length > 0) {
+      const entry = this.config.apiKeys?.find((candidate) => secretsMatch(candidate.key, apiKey));
+      if (!entry) {
+        throw new AuthenticationError("Invalid API key");
+      }
+      return this.principal(entry.principal);
+    }
+
+    const authorization = headers.authorization;
+    const match = typeof authorization === "string" ? /^Bearer\s+(.+)$/i.exec(authorization) : null;
+    if (!match) {
+      throw new AuthenticationError("Missing credentials: send 'Authorization: Bearer <token>' or 'X-API-Key'");
+    }
+    const token = match[1].trim();
+
+    const entry = this.config.bearerTokens?.find((candidate) => secretsMatch(candidate.token, token));
+    if (entry) {
+      return this.principal(entry.principal);
+    }
+    if (this.config.jwt && token.split(".").length === 3) {
+      return this.principal(this.verifyJwt(token));
+    }
+    throw new AuthenticationError("Invalid bearer token");
+  }
+
+  private principal(id: string): Principal {
+    const config = this.principals.get(id);
+    if (!config) {
+      throw new AuthenticationError(`Unknown principal '${id}'`);
+    }
+    return { id, ...config };
+  }
+
+  // Verify an HMAC-signed JWT and return the principal named in it
+  private verifyJwt(token: string): string {
+    const jwt = this.config.jwt!;
+    const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+
+    let header: unknown;
+    let payload: unknown;
+    try {
+      header = JSON.parse(decodeBase64Url(headerSegment).toString("utf8"));
+      payload = JSON.parse(decodeBase64Url(payloadSegment).toString("utf8"));
+    } catch {
+      throw new AuthenticationError("Malformed JWT");
+    }
+    // A validly signed token may still hold JSON that isn't an object
+    if (!isJsonObject(header) || !isJsonObject(payload)) {
+      throw new AuthenticationError("Malformed JWT");
+    }
+
+    const allowed: string[] = jwt.algorithms ?? ["HS256"];
+    const algorithm = typeof header.alg === "string" ? header.alg : "";
+    const hash = Object.prototype.hasOwnProperty.call(JWT_HASHES, algorithm) ? JWT_HASHES[algorithm] : undefined;
+    if (!hash || !allowed.includes(algorithm)) {
+      throw new AuthenticationError(`Unsupported JWT algorithm '${header.alg}'`);
+    }
+
+    const expected = createHmac(hash, this.jwtSecret!).update(`${headerSegment}.${payloadSegment}`).digest();
+    const actual = decodeBase64Url(signatureSegment);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new AuthenticationError("Invalid JWT signature");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp === "number" && now >= payload.exp) {
+      throw new AuthenticationError("JWT has expired");
+    }
+    if (typeof payload.nbf === "number" && now < payload.nbf) {
+      throw new AuthenticationError("JWT is not valid yet");
+    }
+    if (jwt.issuer && payload.iss !== jwt.issuer) {
+      throw new AuthenticationError("JWT issuer mismatch");
+    }
+    if (jwt.audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(jwt.audience)) {
+        throw new AuthenticationError("JWT audience mismatch");
+      }
+    }
+
+    const principal = payload[jwt.principalClaim ?? "sub"];
+    if (typeof principal !== "string" || principal.length === 0) {
+      throw new AuthenticationError("JWT does not name a principal");
+    }
+    return principal;
+  }
+}
+
+export function canAccessDatabase(principal: Principal | undefined, databaseId: string): boolean {
+  return !principal?.databases || principal.databases.includes(databaseId);
+}
+
+export function canUseTool(principal: Principal | undefined, tool: string): boolean {
+  return !principal?.tools || principal.tools.includes(tool);
+}
+
+export function assertPrincipalAccess(principal: Principal | undefined, tool: string, databaseId?: string): void {
+  if (!principal) {
+    return;
+  }
+  if (!canUseTool(principal, tool)) {
+    throw new PolicyViolationError(`Principal '${principal.id}' is not allowed to use tool "${tool}"`);
+  }
+  if (databaseId !== undefined && !canAccessDatabase(principal, databaseId)) {
+    throw new PolicyViolationError(`Principal '${principal.id}' is not allowed to access database '${databaseId}'`, "database");
+  }
+}
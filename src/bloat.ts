@@ -0,0 +1,293 @@
+import pg from "pg";
+import { extensionSchema, serverVersion } from "./introspection.js";
+import { formatQualifiedName } from "./sql.js";
+import { transactionScope } from "./transactions.js";
+
+// When the bloat health check reports a relation, declared per database in
+// databases.json under "healthThresholds.bloat"
+export interface BloatThresholds {
+  // Relations wasting less than this many bytes are never reported
+  minWastedBytes: number;
+  // Percentage of a table's size that is dead rows or unused space
+  tablePercent: number;
+  // Percentage of an index's size beyond what a freshly built index would need
+  indexPercent: number;
+}
+
+export const DEFAULT_BLOAT_THRESHOLDS: BloatThresholds = {
+  minWastedBytes: 10 * 1024 * 1024,
+  tablePercent: 30,
+  indexPercent: 40,
+};
+
+export interface RelationBloat {
+  kind: "table" | "index";
+  // schema.name of the relation, and of its table for indexes
+  name: string;
+  table: string;
+  bytes: number;
+  wastedBytes: number;
+  percent: number;
+  // pgstattuple when measured, estimate when derived from pg_stats
+  method: "pgstattuple" | "estimate";
+  recommendation: string;
+}
+
+export interface BloatReport {
+  method: "pgstattuple" | "estimate";
+  // Why pgstattuple wasn't used, or couldn't be
+  note?: string;
+  // Relations over the thresholds, most wasted bytes first
+  relations: RelationBloat[];
+}
+
+// Most relations measured with pgstattuple, largest first; it reads them
+const MAX_MEASURED_RELATIONS = 50;
+
+// Bytes of fixed overhead per heap page, heap tuple and line pointer, and per btree page and index tuple
+const PAGE_HEADER = 24;
+const HEAP_TUPLE_HEADER = 23;
+const LINE_POINTER = 4;
+const BTREE_SPECIAL = 16;
+const INDEX_TUPLE_HEADER = 8;
+const MAXALIGN = 8;
+
+function align(bytes: number): number {
+  return Math.ceil(bytes / MAXALIGN) * MAXALIGN;
+}
+
+// Size in the units pg_size_pretty uses
+export function formatBytes(bytes: number): string {
+  const units = ["bytes", "kB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 10 * 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value)} ${units[unit]}`;
+}
+
+interface Relation {
+  oid: number;
+  kind: "table" | "index";
+  name: string;
+  table: string;
+  schema: string;
+  tableName: string;
+  pages: number;
+  tuples: number;
+  fillfactor: number;
+  // Columns stored per tuple; null entries are index expressions
+  columns: (string | null)[];
+}
+
+interface ColumnStats {
+  width: number;
+  nullFraction: number;
+}
+
+// User tables, materialized views and valid btree indexes with their size
+// and the statistics needed to estimate how small they could be
+async function loadRelations(client: pg.ClientBase): Promise<{ relations: Relation[]; stats: Map<string, ColumnStats> }> {
+  const userSchemas = "n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg_toast%'";
+  const tables = await client.query(`
+    SELECT c.oid, n.nspname AS schema, c.relname AS name, c.relpages AS pages, c.reltuples AS tuples,
+           coalesce(substring(array_to_string(c.reloptions, ',') FROM 'fillfactor=([0-9]+)')::int, 100) AS fillfactor,
+           array(SELECT a.attname::text FROM pg_attribute a
+                 WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped ORDER BY a.attnum) AS columns
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'm') AND ${userSchemas}
+  `);
+  const indexes = await client.query(`
+    SELECT ic.oid, n.nspname AS schema, ic.relname AS name, c.relname AS table_name, ic.relpages AS pages, ic.reltuples AS tuples,
+           coalesce(substring(array_to_string(ic.reloptions, ',') FROM 'fillfactor=([0-9]+)')::int, 90) AS fillfactor,
+           array(SELECT a.attname::text
+                 FROM unnest(i.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+                 LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum = k.attnum
+                 ORDER BY k.position) AS columns
+    FROM pg_index i
+    JOIN pg_class ic ON ic.oid = i.indexrelid
+    JOIN pg_class c ON c.oid = i.indrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_am am ON am.oid = ic.relam
+    WHERE am.amname = 'btree' AND i.indisvalid AND c.relkind IN ('r', 'm') AND ${userSchemas}
+  `);
+  const stats = await client.query(`
+    SELECT schemaname AS schema, tablename AS name, attname AS column, avg_width, null_frac
+    FROM pg_stats
+    WHERE NOT inherited AND schemaname NOT IN ('pg_catalog', 'information_schema')
+  `);
+
+  const relations: Relation[] = [
+    ...tables.rows.map((row): Relation => ({
+      oid: row.oid,
+      kind: "table",
+      name: formatQualifiedName({ schema: row.schema, name: row.name }),
+      table: formatQualifiedName({ schema: row.schema, name: row.name }),
+      schema: row.schema,
+      tableName: row.name,
+      pages: row.pages,
+      tuples: Math.max(row.tuples, 0),
+      fillfactor: row.fillfactor,
+      columns: row.columns,
+    })),
+    ...indexes.rows.map((row): Relation => ({
+      oid: row.oid,
+      kind: "index",
+      name: formatQualifiedName({ schema: row.schema, name: row.name }),
+      table: formatQualifiedName({ schema: row.schema, name: row.table_name }),
+      schema: row.schema,
+      tableName: row.table_name,
+      pages: row.pages,
+      tuples: Math.max(row.tuples, 0),
+      fillfactor: row.fillfactor,
+      columns: row.columns,
+    })),
+  ];
+  return {
+    relations,
+    stats: new Map(
+      stats.rows.map((row) => [
+        JSON.stringify([row.schema, row.name, row.column]),
+        { width: row.avg_width, nullFraction: row.null_frac },
+      ]),
+    ),
+  };
+}
+
+// Bytes a relation would take if rebuilt from its live rows, from the
+// average column widths in pg_stats; undefined when a column has no statistics
+function expectedBytes(relation: Relation, stats: Map<string, ColumnStats>, blockSize: number): number | undefined {
+  const columns = relation.columns.map((column) =>
+    column === null ? undefined : stats.get(JSON.stringify([relation.schema, relation.tableName, column])),
+  );
+  if (relation.tuples === 0 || columns.length === 0 || columns.some((column) => column === undefined)) {
+    return undefined;
+  }
+  const data = columns.reduce((total, column) => total + column!.width * (1 - column!.nullFraction), 0);
+  const nullable = columns.some((column) => column!.nullFraction > 0);
+
+  if (relation.kind === "table") {
+    const header = align(HEAP_TUPLE_HEADER + (nullable ? Math.ceil(columns.length / 8) : 0));
+    const tuple = header + align(data) + LINE_POINTER;
+    const perPage = Math.max(Math.floor(((blockSize - PAGE_HEADER) * relation.fillfactor) / 100 / tuple), 1);
+    return Math.ceil(relation.tuples / perPage) * blockSize;
+  }
+  const tuple = INDEX_TUPLE_HEADER + align(data) + LINE_POINTER;
+  const perPage = Math.max(Math.floor(((blockSize - PAGE_HEADER - BTREE_SPECIAL) * relation.fillfactor) / 100 / tuple), 1);
+  // Leaf pages, plus the metapage and roughly one inner page per 300 leaves
+  const leaves = Math.ceil(relation.tuples / perPage);
+  return (leaves + 1 + Math.ceil(leaves / 300)) * blockSize;
+}
+
+// Wasted bytes of a relation as pgstattuple measures them: dead rows and
+// free space beyond the fillfactor for tables, and leaf pages emptier than
+// the fillfactor plus empty and deleted pages for indexes
+async function measureWaste(client: pg.ClientBase, schema: string, relation: Relation, blockSize: number): Promise<number | undefined> {
+  if (relation.kind === "table") {
+    const result = await client.query(
+      `SELECT table_len, dead_tuple_len, approx_free_space FROM ${schema}.pgstattuple_approx($1::oid::regclass)`,
+      [relation.oid],
+    );
+    const { table_len, dead_tuple_len, approx_free_space } = result.rows[0];
+    const reserved = (Number(table_len) * (100 - relation.fillfactor)) / 100;
+    return Math.max(Number(dead_tuple_len) + Number(approx_free_space) - reserved, 0);
+  }
+  const result = await client.query(
+    `SELECT leaf_pages, empty_pages, deleted_pages, avg_leaf_density FROM ${schema}.pgstatindex($1::oid::regclass)`,
+    [relation.oid],
+  );
+  const { leaf_pages, empty_pages, deleted_pages, avg_leaf_density } = result.rows[0];
+  if (!Number.isFinite(avg_leaf_density)) {
+    return undefined;
+  }
+  const sparse = Number(leaf_pages) * Math.max(1 - avg_leaf_density / relation.fillfactor, 0);
+  return (sparse + Number(empty_pages) + Number(deleted_pages)) * blockSize;
+}
+
+// Estimate table and index bloat from pg_stats, measuring the largest
+// relations with pgstattuple instead when the extension is installed, and
+// recommend how to reclaim the space of those over the thresholds
+export async function estimateBloat(client: pg.ClientBase, thresholds: BloatThresholds): Promise<BloatReport> {
+  const blockSize = Number((await client.query("SELECT current_setting('block_size') AS size")).rows[0].size);
+  const version = await serverVersion(client);
+  const pgstattuple = await extensionSchema(client, "pgstattuple");
+  const repack = await extensionSchema(client, "pg_repack");
+  const { relations, stats } = await loadRelations(client);
+
+  const wasted = new Map<Relation, { bytes: number; method: RelationBloat["method"] }>();
+  for (const relation of relations) {
+    const expected = expectedBytes(relation, stats, blockSize);
+    if (expected !== undefined) {
+      wasted.set(relation, { bytes: Math.max(relation.pages * blockSize - expected, 0), method: "estimate" });
+    }
+  }
+
+  let method: BloatReport["method"] = "estimate";
+  let note: string | undefined = pgstattuple
+    ? undefined
+    : "Estimated from pg_stats; install the pgstattuple extension for exact numbers. Relations without statistics are skipped until they are analyzed.";
+  if (pgstattuple) {
+    // Only relations big enough to waste minWastedBytes are worth reading
+    const measured = relations
+      .filter((relation) => relation.pages * blockSize >= Math.max(thresholds.minWastedBytes, blockSize))
+      .sort((a, b) => b.pages - a.pages)
+      .slice(0, MAX_MEASURED_RELATIONS);
+    // A failure aborts the caller's transaction when there is one, so roll back to here
+    const scope = transactionScope(client, { readOnly: true });
+    await scope.begin();
+    try {
+      for (const relation of measured) {
+        const bytes = await measureWaste(client, pgstattuple, relation, blockSize);
+        if (bytes !== undefined) {
+          wasted.set(relation, { bytes, method: "pgstattuple" });
+        }
+      }
+      method = "pgstattuple";
+      if (relations.length > measured.length) {
+        note = `Measured with pgstattuple: the ${measured.length} largest relations of at least ${formatBytes(thresholds.minWastedBytes)}; smaller ones can't reach the threshold.`;
+      }
+    } catch (error) {
+      note = `pgstattuple could not be used (${error instanceof Error ? error.message : error}); sizes are estimated from pg_stats.`;
+    } finally {
+      await scope.rollback();
+    }
+  }
+
+  const reported: RelationBloat[] = [];
+  for (const [relation, waste] of wasted) {
+    const bytes = relation.pages * blockSize;
+    const percent = bytes > 0 ? (waste.bytes / bytes) * 100 : 0;
+    const threshold = relation.kind === "table" ? thresholds.tablePercent : thresholds.indexPercent;
+    if (waste.bytes < thresholds.minWastedBytes || percent < threshold) {
+      continue;
+    }
+    reported.push({
+      kind: relation.kind,
+      name: relation.name,
+      table: relation.table,
+      bytes,
+      wastedBytes: Math.round(waste.bytes),
+      percent: Math.round(percent * 10) / 10,
+      method: waste.method,
+      recommendation: recommendation(relation, repack !== null, version),
+    });
+  }
+
+  return { method, note, relations: reported.sort((a, b) => b.wastedBytes - a.wastedBytes) };
+}
+
+function recommendation(relation: Relation, repack: boolean, version: number): string {
+  if (relation.kind === "index") {
+    // REINDEX CONCURRENTLY arrived in PostgreSQL 12
+    return version >= 120000
+      ? `REINDEX INDEX CONCURRENTLY ${relation.name}`
+      : `REINDEX INDEX ${relation.name} (blocks writes to ${relation.table} while it runs)`;
+  }
+  const table = relation.table;
+  return repack
+    ? `pg_repack --table=${table}, which rebuilds it online (the table needs a primary key or a unique index on NOT NULL columns)`
+    : `VACUUM FULL ${table} (locks the table for the whole rewrite; the pg_repack extension can rebuild it online instead)`;
+}
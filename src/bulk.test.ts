@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import pg from "pg";
+import { bulkInsert, parseBulkRows } from "./bulk.js";
+import { ColumnInfo, ResolvedTable } from "./sql.js";
+
+const table: ResolvedTable = { schema: "public", name: "items", kind: "r", sql: '"public"."items"' };
+
+const columns = new Map<string, ColumnInfo>([["id", { name: "id", dataType: "integer", udtName: "int4", isNullable: false }]]);
+
+// A client whose INSERTs fail with the given SQLSTATE, recording every statement
+function failingClient(code: string, statements: string[]): pg.ClientBase {
+  const query = async (sql: string) => {
+    statements.push(sql);
+    if (sql.startsWith("INSERT")) {
+      throw Object.assign(new Error(`failed with ${code}`), { code });
+    }
+    return { rows: [] };
+  };
+  return { query } as unknown as pg.ClientBase;
+}
+
+function load(client: pg.ClientBase, rows: unknown[]) {
+  return bulkInsert(client, table, columns, parseBulkRows({ rows }), { method: "insert", onError: "skip" });
+}
+
+describe("bulkInsert", () => {
+  it("retries a batch row by row when a row's data fails", async () => {
+    const statements: string[] = [];
+    const result = await load(failingClient("23505", statements), [{ id: 1 }, { id: 2 }]);
+    assert.equal(statements.filter((sql) => sql.startsWith("INSERT")).length, 3);
+    assert.deepEqual(result.failed.map((row) => row.field), ["rows[0]", "rows[1]"]);
+  });
+
+  it("stops at once when a batch is cancelled or times out", async () => {
+    const statements: string[] = [];
+    await assert.rejects(load(failingClient("57014", statements), [{ id: 1 }, { id: 2 }]), { code: "57014" });
+    assert.equal(statements.filter((sql) => sql.startsWith("INSERT")).length, 1);
+    assert.equal(statements.at(-1), "ROLLBACK");
+  });
+
+  it("reports rows naming unknown columns as failed rows", async () => {
+    const statements: string[] = [];
+    const result = await load(failingClient("23505", statements), [{ nope: 1 }]);
+    assert.equal(result.failed[0].field, "rows[0].nope");
+    assert.equal(statements.length, 0);
+  });
+});
@@ -0,0 +1,471 @@
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import pg from "pg";
+import { from as copyFrom } from "pg-copy-streams";
+import { coerceColumnValues } from "./params.js";
+import { ColumnInfo, ResolvedTable, SqlValidationError, quoteIdentifier, resolveColumn } from "./sql.js";
+import { transactionScope } from "./transactions.js";
+
+export interface ConflictHandling {
+  // Conflict target; may be omitted for DO NOTHING
+  columns?: string[];
+  action: "nothing" | "update";
+  // Columns overwritten from the new row on DO UPDATE; defaults to every
+  // inserted column that isn't part of the conflict target
+  updateColumns?: string[];
+}
+
+export interface BulkInsertOptions {
+  // "insert" sends multi-row INSERT statements; "copy" streams the rows with
+  // COPY FROM STDIN, which is faster but all-or-nothing
+  method: "insert" | "copy";
+  onConflict?: ConflictHandling;
+  // "abort" inserts nothing if any row fails; "skip" inserts the other rows
+  onError: "abort" | "skip";
+  // Roll the rows back once written, to report what the call would do
+  dryRun?: boolean;
+  // Called with the counts before the rows are committed; throwing rolls them back
+  beforeCommit?: (result: BulkInsertResult) => void;
+}
+
+export interface FailedRow {
+  field: string;
+  message: string;
+}
+
+export interface BulkInsertResult {
+  method: "insert" | "copy";
+  received: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: FailedRow[];
+}
+
+// Most rows sent in one INSERT statement; also bounded by PostgreSQL's limit
+// of 65535 bind parameters per statement
+const MAX_BATCH_ROWS = 500;
+const MAX_BIND_PARAMETERS = 65535;
+
+interface ParsedRows {
+  // One entry per input row; undefined where the row couldn't be parsed
+  rows: (Record<string, unknown> | undefined)[];
+  failed: FailedRow[];
+  // CSV values are PostgreSQL text representations and are sent unconverted
+  text?: boolean;
+}
+
+// Split CSV text into records (RFC 4180). Unquoted empty fields are NULL and
+// quoted empty fields are empty strings, as with PostgreSQL's COPY.
+export function parseCsv(text: string): (string | null)[][] {
+  const records: (string | null)[][] = [];
+  let record: (string | null)[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push(field === "" && !quoted ? null : field);
+    field = "";
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    // Skip blank lines
+    if (record.length > 1 || record[0] !== null) {
+      records.push(record);
+    }
+    record = [];
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' && field === "" && !quoted) {
+      quoted = true;
+      let j = i + 1;
+      while (j < text.length) {
+        if (text[j] === '"' && text[j + 1] === '"') {
+          field += '"';
+          j += 2;
+        } else if (text[j] === '"') {
+          break;
+        } else {
+          field += text[j++];
+        }
+      }
+      if (j >= text.length) {
+        throw new SqlValidationError("CSV has an unterminated quoted field", "csv");
+      }
+      i = j + 1;
+    } else if (ch === ",") {
+      endField();
+      i++;
+    } else if (ch === "\r" || ch === "\n") {
+      endRecord();
+      i += ch === "\r" && text[i + 1] === "\n" ? 2 : 1;
+    } else {
+      field += ch;
+      i++;
+    }
+  }
+  if (field !== "" || quoted || record.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+// Turn bulk_insert's rows, csv or ndjson argument into row objects. Rows that
+// can't be parsed are reported as failed rather than failing the whole call.
+export function parseBulkRows(input: { rows?: unknown; csv?: unknown; ndjson?: unknown }): ParsedRows {
+  const given = (["rows", "csv", "ndjson"] as const).filter((key) => input[key] !== undefined);
+  if (given.length !== 1) {
+    throw new SqlValidationError("Pass exactly one of rows, csv or ndjson", "rows");
+  }
+
+  const failed: FailedRow[] = [];
+  if (input.rows !== undefined) {
+    if (!Array.isArray(input.rows)) {
+      throw new SqlValidationError("rows must be an array of objects", "rows");
+    }
+    const rows = input.rows.map((row, index) => {
+      if (typeof row !== "object" || row === null || Array.isArray(row)) {
+        failed.push({ field: `rows[${index}]`, message: "Row must be an object of column/value pairs" });
+        return undefined;
+      }
+      return row as Record<string, unknown>;
+    });
+    return { rows, failed };
+  }
+
+  if (input.csv !== undefined) {
+    if (typeof input.csv !== "string") {
+      throw new SqlValidationError("csv must be a string with a header line", "csv");
+    }
+    const [header, ...records] = parseCsv(input.csv);
+    if (!header || header.some((name) => name === null)) {
+      throw new SqlValidationError("CSV must start with a header line naming every column", "csv");
+    }
+    const rows = records.map((record, index) => {
+      if (record.length !== header.length) {
+        failed.push({
+          field: `rows[${index}]`,
+          message: `CSV record has ${record.length} fields but the header has ${header.length}`,
+        });
+        return undefined;
+      }
+      return Object.fromEntries(header.map((name, column) => [name, record[column]]));
+    });
+    return { rows, failed, text: true };
+  }
+
+  if (typeof input.ndjson !== "string") {
+    throw new SqlValidationError("ndjson must be a string with one JSON object per line", "ndjson");
+  }
+  const rows = input.ndjson
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map((line, index) => {
+      try {
+        const row = JSON.parse(line);
+        if (typeof row === "object" && row !== null && !Array.isArray(row)) {
+          return row as Record<string, unknown>;
+        }
+        failed.push({ field: `rows[${index}]`, message: "Line must be a JSON object of column/value pairs" });
+      } catch (error) {
+        failed.push({ field: `rows[${index}]`, message: `Invalid JSON: ${error instanceof Error ? error.message : error}` });
+      }
+      return undefined;
+    });
+  return { rows, failed };
+}
+
+// Render a converted value as a PostgreSQL array element
+function arrayElement(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (Array.isArray(value)) {
+    return arrayLiteral(value);
+  }
+  const text = Buffer.isBuffer(value) ? `\\x${value.toString("hex")}` : String(value);
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function arrayLiteral(values: unknown[]): string {
+  return `{${values.map(arrayElement).join(",")}}`;
+}
+
+// Render a converted value as a COPY CSV field
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text: string;
+  if (Buffer.isBuffer(value)) {
+    text = `\\x${value.toString("hex")}`;
+  } else if (Array.isArray(value)) {
+    text = arrayLiteral(value);
+  } else {
+    text = String(value);
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+interface PreparedRow {
+  index: number;
+  // Converted values by column name; absent columns take their default
+  values: Map<string, unknown>;
+}
+
+// Insert many rows into a table, converting values per column type like
+// insert_entry. Runs in a transaction of its own, or a savepoint inside an
+// explicit transaction. With onError "abort" nothing is inserted if any row
+// fails, and the failures are thrown as one SqlValidationError.
+export async function bulkInsert(
+  client: pg.ClientBase,
+  table: ResolvedTable,
+  tableColumns: Map<string, ColumnInfo>,
+  parsed: ParsedRows,
+  options: BulkInsertOptions,
+): Promise<BulkInsertResult> {
+  if (options.method === "copy" && (options.onConflict || options.onError === "skip")) {
+    throw new SqlValidationError(
+      'method "copy" is all-or-nothing and can\'t handle conflicts or skip failing rows; use method "insert"',
+      "method",
+    );
+  }
+
+  const failed = [...parsed.failed];
+  const failedRows = new Set<number>();
+  const columns = new Map<string, ColumnInfo>();
+  const prepared: PreparedRow[] = [];
+
+  parsed.rows.forEach((row, index) => {
+    if (!row) {
+      return;
+    }
+    try {
+      const entries = Object.entries(row).map(([key, value]) => ({
+        column: resolveColumn(tableColumns, table, key, `rows[${index}].${key}`),
+        value,
+        field: `rows[${index}].${key}`,
+      }));
+      const values = parsed.text ? entries.map(({ value }) => value) : coerceColumnValues(entries);
+      entries.forEach(({ column }) => columns.set(column.name, column));
+      prepared.push({ index, values: new Map(entries.map(({ column }, i) => [column.name, values[i]])) });
+    } catch (error) {
+      if (!(error instanceof SqlValidationError)) {
+        throw error;
+      }
+      failed.push(...(error.errors ?? [{ field: error.field ?? `rows[${index}]`, message: error.message }]));
+      failedRows.add(index);
+    }
+  });
+
+  const columnNames = Array.from(columns.keys());
+  if (columnNames.length === 0 && prepared.length > 0) {
+    throw new SqlValidationError("Rows must name at least one column", "rows");
+  }
+  if (options.method === "copy") {
+    // COPY has no DEFAULT, so every row must supply every column
+    for (const row of prepared.filter((row) => row.values.size !== columnNames.length)) {
+      const missing = columnNames.filter((name) => !row.values.has(name));
+      failed.push({ field: `rows[${row.index}]`, message: `Row is missing columns: ${missing.join(", ")}` });
+      failedRows.add(row.index);
+    }
+  }
+
+  const result: BulkInsertResult = {
+    method: options.method,
+    received: parsed.rows.length,
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    failed,
+  };
+  if (failed.length > 0 && options.onError === "abort") {
+    throw rowsFailedError(failed);
+  }
+
+  const pending = prepared.filter((row) => !failedRows.has(row.index));
+  if (pending.length === 0) {
+    return result;
+  }
+
+  const scope = transactionScope(client);
+  await scope.begin();
+  try {
+    if (options.method === "copy") {
+      result.inserted = await copyRows(client, table, columnNames, pending);
+    } else {
+      const statement = insertStatement(table, columnNames, tableColumns, options.onConflict);
+      const batchSize = Math.max(1, Math.min(MAX_BATCH_ROWS, Math.floor(MAX_BIND_PARAMETERS / columnNames.length)));
+      for (let start = 0; start < pending.length; start += batchSize) {
+        await insertBatch(client, statement, pending.slice(start, start + batchSize), result);
+      }
+    }
+
+    if (result.failed.length > 0 && options.onError === "abort") {
+      throw rowsFailedError(result.failed);
+    }
+    options.beforeCommit?.(result);
+    if (options.dryRun) {
+      await scope.rollback();
+      return result;
+    }
+    await scope.commit();
+    return result;
+  } catch (error) {
+    await scope.rollback();
+    throw error;
+  }
+}
+
+function rowsFailedError(failed: FailedRow[]): SqlValidationError {
+  return new SqlValidationError(
+    `${failed.length} row error(s); nothing was inserted. Fix the rows or pass on_error: "skip" to insert the others.`,
+    failed[0].field,
+    "rows_failed",
+    failed,
+  );
+}
+
+interface InsertStatement {
+  columns: string[];
+  // SQL before and after the VALUES lists. The suffix returns one row per
+  // written row, with "inserted" false for rows updated by an upsert.
+  prefix: string;
+  suffix: string;
+}
+
+function insertStatement(
+  table: ResolvedTable,
+  columns: string[],
+  tableColumns: Map<string, ColumnInfo>,
+  onConflict: ConflictHandling | undefined,
+): InsertStatement {
+  const prefix = `INSERT INTO ${table.sql} (${columns.map(quoteIdentifier).join(", ")}) VALUES `;
+  if (!onConflict) {
+    return { columns, prefix, suffix: " RETURNING true AS inserted" };
+  }
+
+  const target = (onConflict.columns ?? []).map((key, index) =>
+    quoteIdentifier(resolveColumn(tableColumns, table, key, `on_conflict.columns[${index}]`).name),
+  );
+  const targetSql = target.length > 0 ? ` (${target.join(", ")})` : "";
+  if (onConflict.action === "nothing") {
+    return { columns, prefix, suffix: ` ON CONFLICT${targetSql} DO NOTHING RETURNING true AS inserted` };
+  }
+  if (onConflict.action !== "update") {
+    throw new SqlValidationError('on_conflict.action must be "nothing" or "update"', "on_conflict.action");
+  }
+  if (target.length === 0) {
+    throw new SqlValidationError("on_conflict.columns is required for DO UPDATE", "on_conflict.columns");
+  }
+
+  const updated = onConflict.updateColumns
+    ? onConflict.updateColumns.map((key, index) =>
+        quoteIdentifier(resolveColumn(tableColumns, table, key, `on_conflict.update_columns[${index}]`).name),
+      )
+    : columns.map(quoteIdentifier).filter((column) => !target.includes(column));
+  if (updated.length === 0) {
+    throw new SqlValidationError("No columns left to update on conflict", "on_conflict.update_columns");
+  }
+  const assignments = updated.map((column) => `${column} = EXCLUDED.${column}`).join(", ");
+  // xmax is zero for freshly inserted rows and set for rows updated by the upsert
+  return {
+    columns,
+    prefix,
+    suffix: ` ON CONFLICT${targetSql} DO UPDATE SET ${assignments} RETURNING (xmax = 0) AS inserted`,
+  };
+}
+
+function valuesSql(statement: InsertStatement, rows: PreparedRow[]): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const lists = rows.map((row) => {
+    const items = statement.columns.map((column) => {
+      if (!row.values.has(column)) {
+        return "DEFAULT";
+      }
+      params.push(row.values.get(column));
+      return `$${params.length}`;
+    });
+    return `(${items.join(", ")})`;
+  });
+  return { sql: statement.prefix + lists.join(", ") + statement.suffix, params };
+}
+
+// Whether an error can be down to the rows sent: a data exception (SQLSTATE
+// class 22) or an integrity constraint violation (class 23). Anything else,
+// such as a statement timeout or cancellation (57014), stops the load.
+function isRowError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && (code.startsWith("22") || code.startsWith("23"));
+}
+
+// Insert one batch. If a row's data makes it fail, retry its rows one at a
+// time under savepoints to find out which rows are at fault.
+async function insertBatch(
+  client: pg.ClientBase,
+  statement: InsertStatement,
+  rows: PreparedRow[],
+  result: BulkInsertResult,
+): Promise<void> {
+  // Rows missing from RETURNING were skipped by DO NOTHING
+  const count = (returned: pg.QueryResult, sent: number) => {
+    const inserted = returned.rows.filter((row) => row.inserted).length;
+    result.inserted += inserted;
+    result.updated += returned.rows.length - inserted;
+    result.skipped += sent - returned.rows.length;
+  };
+
+  await client.query("SAVEPOINT mcp_bulk_batch");
+  try {
+    const { sql, params } = valuesSql(statement, rows);
+    count(await client.query(sql, params), rows.length);
+    await client.query("RELEASE SAVEPOINT mcp_bulk_batch");
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK TO SAVEPOINT mcp_bulk_batch");
+    await client.query("RELEASE SAVEPOINT mcp_bulk_batch");
+    if (!isRowError(error)) {
+      throw error;
+    }
+  }
+
+  for (const row of rows) {
+    await client.query("SAVEPOINT mcp_bulk_row");
+    try {
+      const { sql, params } = valuesSql(statement, [row]);
+      count(await client.query(sql, params), 1);
+      await client.query("RELEASE SAVEPOINT mcp_bulk_row");
+    } catch (error) {
+      await client.query("ROLLBACK TO SAVEPOINT mcp_bulk_row");
+      await client.query("RELEASE SAVEPOINT mcp_bulk_row");
+      if (!isRowError(error)) {
+        throw error;
+      }
+      const detail = (error as { detail?: string }).detail;
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed.push({ field: `rows[${row.index}]`, message: detail ? `${message} (${detail})` : message });
+    }
+  }
+}
+
+async function copyRows(
+  client: pg.ClientBase,
+  table: ResolvedTable,
+  columns: string[],
+  rows: PreparedRow[],
+): Promise<number> {
+  const stream = client.query(
+    copyFrom(`COPY ${table.sql} (${columns.map(quoteIdentifier).join(", ")}) FROM STDIN WITH (FORMAT csv)`),
+  );
+  const lines = (function* () {
+    for (const row of rows) {
+      yield columns.map((column) => csvField(row.values.get(column))).join(",") + "\n";
+    }
+  })();
+  await pipeline(Readable.from(lines), stream);
+  return stream.rowCount;
+}
@@ -0,0 +1,152 @@
+import pg from "pg";
+import { CatalogObject, CatalogSnapshotEntry, snapshotCatalog } from "./introspection.js";
+
+// How schema changes made outside this server are picked up, declared per
+// database in databases.json under "schemaChanges"
+export interface SchemaChangeSettings {
+  // The catalog is compared with its last snapshot this often while clients
+  // are connected; 0 only reports changes made through this server's tools
+  pollIntervalMs: number;
+}
+
+export const DEFAULT_SCHEMA_CHANGE_SETTINGS: SchemaChangeSettings = {
+  pollIntervalMs: 30 * 1000,
+};
+
+// Merge configured settings over the defaults, rejecting invalid values
+export function resolveSchemaChangeSettings(
+  settings: Partial<SchemaChangeSettings> | undefined,
+  databaseId: string,
+): SchemaChangeSettings {
+  const resolved = { ...DEFAULT_SCHEMA_CHANGE_SETTINGS, ...settings };
+  if (typeof resolved.pollIntervalMs !== "number" || !Number.isInteger(resolved.pollIntervalMs) || resolved.pollIntervalMs < 0) {
+    throw new Error(`schemaChanges for database '${databaseId}': 'pollIntervalMs' must be a non-negative integer`);
+  }
+  return resolved;
+}
+
+// Objects of one database that appeared, disappeared or were altered
+// (columns, constraints, indexes, definition or comment) since the last check
+export interface SchemaChange {
+  databaseId: string;
+  added: CatalogObject[];
+  removed: CatalogObject[];
+  altered: CatalogObject[];
+}
+
+export type SchemaChangeListener = (change: SchemaChange) => void;
+
+export interface WatchedDatabase {
+  id: string;
+  settings: SchemaChangeSettings;
+}
+
+function snapshotKey(object: CatalogObject): string {
+  return JSON.stringify([object.schema, object.name, object.resource]);
+}
+
+// Detects schema changes by comparing catalog snapshots, whether the change
+// came from a tool call (reported through check()) or from another client
+// (found by polling). Snapshots are only kept while someone is listening.
+export class SchemaWatcher {
+  private readonly listeners = new Set<SchemaChangeListener>();
+  private readonly snapshots = new Map<string, Map<string, CatalogSnapshotEntry>>();
+  private readonly pollers: NodeJS.Timeout[] = [];
+  // Latest check per database; checks of one database run one after another
+  private readonly checks = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly source: {
+      databases: () => WatchedDatabase[];
+      connect: (databaseId: string) => Promise<pg.PoolClient>;
+    },
+  ) {}
+
+  // Call the listener with every change until the returned function is called
+  watch(listener: SchemaChangeListener): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  // Compare a database's catalog with its last snapshot now, without waiting
+  // for the next poll. Never rejects; failures are logged.
+  check(databaseId: string): Promise<void> {
+    if (this.listeners.size === 0) {
+      return Promise.resolve();
+    }
+    const next = (this.checks.get(databaseId) ?? Promise.resolve())
+      .then(() => this.compare(databaseId))
+      .catch((error) => console.error(`Error checking schema changes for database ${databaseId}:`, error));
+    this.checks.set(databaseId, next);
+    return next;
+  }
+
+  private start(): void {
+    for (const { id, settings } of this.source.databases()) {
+      // The first snapshot is the baseline later ones are compared with
+      this.check(id);
+      if (settings.pollIntervalMs > 0) {
+        const poller = setInterval(() => this.check(id), settings.pollIntervalMs);
+        poller.unref();
+        this.pollers.push(poller);
+      }
+    }
+  }
+
+  private stop(): void {
+    for (const poller of this.pollers.splice(0)) {
+      clearInterval(poller);
+    }
+    this.snapshots.clear();
+  }
+
+  private async compare(databaseId: string): Promise<void> {
+    const client = await this.source.connect(databaseId);
+    let entries: CatalogSnapshotEntry[];
+    try {
+      entries = await snapshotCatalog(client);
+    } finally {
+      client.release();
+    }
+    // Everyone stopped listening while the snapshot was taken
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const current = new Map(entries.map((entry) => [snapshotKey(entry), entry]));
+    const previous = this.snapshots.get(databaseId);
+    this.snapshots.set(databaseId, current);
+    if (!previous) {
+      return;
+    }
+
+    const change: SchemaChange = { databaseId, added: [], removed: [], altered: [] };
+    for (const [key, entry] of current) {
+      const before = previous.get(key);
+      if (!before) {
+        change.added.push(entry);
+      } else if (before.fingerprint !== entry.fingerprint) {
+        change.altered.push(entry);
+      }
+    }
+    for (const [key, entry] of previous) {
+      if (!current.has(key)) {
+        change.removed.push(entry);
+      }
+    }
+    if (change.added.length + change.removed.length + change.altered.length === 0) {
+      return;
+    }
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { createHash, randomUUID } from "crypto";
+import { SqlValidationError } from "./sql.js";
+
+// How long a dry run's confirmation token stays valid
+export const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+
+// What a confirmation token was issued for. The confirmed call must produce
+// exactly the same statement and parameters as the dry run.
+export interface ConfirmationScope {
+  tool: string;
+  databaseId: string;
+  principalId?: string;
+  sql: string;
+  params: unknown[];
+}
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+function fingerprint(scope: ConfirmationScope): string {
+  return createHash("sha256")
+    .update(JSON.stringify([scope.tool, scope.databaseId, scope.principalId ?? null, scope.sql, scope.params]))
+    .digest("hex");
+}
+
+// Single-use tokens handed out by dry runs of destructive tools, so that
+// data can't be destroyed without first previewing the effect
+export class ConfirmationRegistry {
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(private readonly ttlMs: number = CONFIRMATION_TTL_MS) {}
+
+  issue(scope: ConfirmationScope, now: number = Date.now()): { token: string; expiresAt: string } {
+    this.prune(now);
+    const token = randomUUID();
+    const expiresAt = now + this.ttlMs;
+    this.pending.set(token, { fingerprint: fingerprint(scope), expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  // Check and use up a token; throws if it is missing, unknown, expired or
+  // was issued for a different statement
+  consume(token: unknown, scope: ConfirmationScope, now: number = Date.now()): void {
+    if (token === undefined || token === null || token === "") {
+      throw new SqlValidationError(
+        `${scope.tool} needs confirmation: call it with dry_run: true to preview the change, then repeat the call with the returned confirmation_token`,
+        "confirmation_token",
+        "confirmation_required",
+      );
+    }
+
+    const pending = typeof token === "string" ? this.pending.get(token) : undefined;
+    if (!pending || pending.expiresAt <= now) {
+      if (typeof token === "string") {
+        this.pending.delete(token);
+      }
+      throw new SqlValidationError(
+        "Confirmation token is unknown, already used or expired; run the dry run again",
+        "confirmation_token",
+        "confirmation_invalid",
+      );
+    }
+    if (pending.fingerprint !== fingerprint(scope)) {
+      throw new SqlValidationError(
+        "Confirmation token was issued for a different statement; run the dry run again with the same arguments",
+        "confirmation_token",
+        "confirmation_invalid",
+      );
+    }
+    this.pending.delete(token as string);
+  }
+
+  private prune(now: number): void {
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
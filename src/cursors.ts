@@ -0,0 +1,315 @@
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { SqlValidationError, quoteIdentifier } from "./sql.js";
+import { isTransactionClient } from "./transactions.js";
+
+// Result size limits for the query tool, declared per database in
+// databases.json under "queryLimits"
+export interface QueryLimits {
+  // Most rows returned by a single query or fetch_more call
+  maxRows: number;
+  // Most bytes of JSON row data returned by a single call
+  maxBytes: number;
+  // Open cursors are closed after this long without a fetch_more call
+  cursorIdleTimeoutMs: number;
+  // Open cursors each hold a pooled connection; beyond this the least
+  // recently used cursor of the database is closed
+  maxOpenCursors: number;
+}
+
+export const DEFAULT_QUERY_LIMITS: QueryLimits = {
+  maxRows: 1000,
+  maxBytes: 1024 * 1024,
+  cursorIdleTimeoutMs: 5 * 60 * 1000,
+  maxOpenCursors: 5,
+};
+
+// Merge configured limits over the defaults, rejecting invalid values
+export function resolveQueryLimits(limits: Partial<QueryLimits> | undefined, databaseId: string): QueryLimits {
+  const resolved = { ...DEFAULT_QUERY_LIMITS, ...limits };
+  for (const [key, value] of Object.entries(resolved)) {
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`queryLimits for database '${databaseId}': '${key}' must be a positive integer`);
+    }
+  }
+  return resolved;
+}
+
+export interface QueryPage {
+  rows: any[];
+  rowCount: number;
+  // True when more rows are available than were returned in this page
+  truncated: boolean;
+  // Pass to fetch_more to continue; absent once the result is exhausted
+  cursor?: string;
+  // Rows returned so far across this and earlier pages
+  rowsReturned: number;
+  // Exact total, known once the whole result has been read
+  totalRows?: number;
+  // Planner estimate of the total, given while more rows are pending
+  estimatedTotalRows?: number;
+}
+
+interface OpenCursor {
+  token: string;
+  name: string;
+  client: pg.PoolClient;
+  databaseId: string;
+  principalId?: string;
+  limits: QueryLimits;
+  buffered: any[];
+  exhausted: boolean;
+  rowsReturned: number;
+  estimatedTotalRows?: number;
+  lastUsed: number;
+  applySettings?: () => Promise<() => void>;
+  // Cursors opened inside an explicit transaction share its connection
+  inTransaction: boolean;
+  declared: boolean;
+}
+
+// Server-side cursors that let clients page through large query results.
+// Each open cursor owns a pooled connection holding a READ ONLY transaction,
+// unless it was opened inside an explicit transaction and lives in that.
+export class CursorRegistry {
+  private readonly cursors = new Map<string, OpenCursor>();
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 30 * 1000) {
+    this.sweeper = setInterval(() => {
+      this.closeIdle().catch((error) => console.error("Error closing idle cursors:", error));
+    }, sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  // Run a read-only statement and return its first page. Takes ownership of
+  // the client: it is released once the result is exhausted or the cursor closes.
+  async open(
+    client: pg.PoolClient,
+    sql: string,
+    options: {
+      databaseId: string;
+      principalId?: string;
+      limits: QueryLimits;
+      maxRows?: number;
+      // Only SELECT statements can back a cursor; others are run directly
+      useCursor: boolean;
+      params?: unknown[];
+      // Applies the calling request's timeouts before each later fetch
+      applySettings?: () => Promise<() => void>;
+    },
+  ): Promise<QueryPage> {
+    const cursor: OpenCursor = {
+      token: randomUUID(),
+      name: `mcp_cursor_${randomUUID().replace(/-/g, "")}`,
+      client,
+      databaseId: options.databaseId,
+      principalId: options.principalId,
+      limits: options.limits,
+      buffered: [],
+      exhausted: false,
+      rowsReturned: 0,
+      lastUsed: Date.now(),
+      applySettings: options.applySettings,
+      inTransaction: isTransactionClient(client),
+      declared: false,
+    };
+
+    try {
+      if (!cursor.inTransaction) {
+        await client.query("BEGIN TRANSACTION READ ONLY");
+      }
+      if (options.useCursor) {
+        // Declaring only plans the statement; it runs when fetched, read-only
+        await client.query(`DECLARE ${quoteIdentifier(cursor.name)} NO SCROLL CURSOR FOR ${sql}`, options.params);
+        cursor.declared = true;
+      } else {
+        const result = await this.readOnly(cursor, sql, options.params);
+        cursor.buffered = result.rows ?? [];
+        cursor.exhausted = true;
+      }
+
+      const page = await this.nextPage(cursor, options.maxRows);
+      if (!page.cursor) {
+        return page;
+      }
+
+      cursor.estimatedTotalRows = await this.estimateRows(client, sql, options.params);
+      await this.makeRoom(options.databaseId, options.limits.maxOpenCursors);
+      this.cursors.set(cursor.token, cursor);
+      return { ...page, estimatedTotalRows: cursor.estimatedTotalRows };
+    } catch (error) {
+      await this.release(cursor);
+      throw error;
+    }
+  }
+
+  async fetch(token: string, principalId: string | undefined, maxRows?: number): Promise<QueryPage> {
+    const cursor = this.get(token, principalId);
+    cursor.lastUsed = Date.now();
+    let detach = () => {};
+    try {
+      detach = (await cursor.applySettings?.()) ?? detach;
+      const page = await this.nextPage(cursor, maxRows);
+      if (page.cursor) {
+        return { ...page, estimatedTotalRows: cursor.estimatedTotalRows };
+      }
+      return page;
+    } catch (error) {
+      this.cursors.delete(cursor.token);
+      await this.release(cursor);
+      throw error;
+    } finally {
+      detach();
+    }
+  }
+
+  async close(token: string, principalId: string | undefined): Promise<void> {
+    const cursor = this.get(token, principalId);
+    this.cursors.delete(cursor.token);
+    await this.release(cursor);
+  }
+
+  // Close every cursor using a client, e.g. before its transaction ends
+  async closeForClient(client: pg.ClientBase): Promise<void> {
+    for (const cursor of Array.from(this.cursors.values())) {
+      if (cursor.client === client) {
+        this.cursors.delete(cursor.token);
+        await this.release(cursor);
+      }
+    }
+  }
+
+  // Close every cursor that has not been used within its idle timeout
+  async closeIdle(now: number = Date.now()): Promise<void> {
+    for (const cursor of Array.from(this.cursors.values())) {
+      if (now - cursor.lastUsed >= cursor.limits.cursorIdleTimeoutMs) {
+        this.cursors.delete(cursor.token);
+        await this.release(cursor);
+      }
+    }
+  }
+
+  // Cursors are only visible to the principal that opened them
+  private get(token: string, principalId: string | undefined): OpenCursor {
+    const cursor = typeof token === "string" ? this.cursors.get(token) : undefined;
+    if (!cursor || cursor.principalId !== principalId) {
+      throw new SqlValidationError(
+        "Cursor not found. It may have been exhausted, closed, or expired after being idle.",
+        "cursor",
+        "not_found",
+      );
+    }
+    return cursor;
+  }
+
+  private async nextPage(cursor: OpenCursor, requestedRows?: number): Promise<QueryPage> {
+    const maxRows = Math.min(requestedRows ?? cursor.limits.maxRows, cursor.limits.maxRows);
+
+    // Read one row beyond the page so we know whether more are pending
+    const needed = maxRows + 1 - cursor.buffered.length;
+    if (needed > 0 && !cursor.exhausted) {
+      const result = await this.readOnly(cursor, `FETCH FORWARD ${needed} FROM ${quoteIdentifier(cursor.name)}`);
+      cursor.buffered.push(...result.rows);
+      if (result.rows.length < needed) {
+        cursor.exhausted = true;
+      }
+    }
+
+    // Always return at least one row so paging makes progress
+    const rows: any[] = [];
+    let bytes = 0;
+    while (rows.length < maxRows && cursor.buffered.length > 0) {
+      const size = Buffer.byteLength(JSON.stringify(cursor.buffered[0]), "utf8");
+      if (rows.length > 0 && bytes + size > cursor.limits.maxBytes) {
+        break;
+      }
+      rows.push(cursor.buffered.shift());
+      bytes += size;
+    }
+    cursor.rowsReturned += rows.length;
+
+    const more = cursor.buffered.length > 0 || !cursor.exhausted;
+    if (!more) {
+      this.cursors.delete(cursor.token);
+      await this.release(cursor);
+      return {
+        rows,
+        rowCount: rows.length,
+        truncated: false,
+        rowsReturned: cursor.rowsReturned,
+        totalRows: cursor.rowsReturned,
+      };
+    }
+
+    return {
+      rows,
+      rowCount: rows.length,
+      truncated: true,
+      cursor: cursor.token,
+      rowsReturned: cursor.rowsReturned,
+    };
+  }
+
+  // Run a statement that executes the query. Outside an explicit transaction
+  // the cursor's own READ ONLY transaction guards it. An explicit transaction
+  // may be read-write, so the statement runs in a savepoint made read-only
+  // and rolled back afterwards, which restores the transaction's mode and
+  // leaves cursors declared before the savepoint open.
+  private async readOnly(cursor: OpenCursor, sql: string, params?: unknown[]): Promise<pg.QueryResult> {
+    if (!cursor.inTransaction) {
+      return cursor.client.query(sql, params);
+    }
+    await cursor.client.query("SAVEPOINT mcp_read_only");
+    try {
+      await cursor.client.query("SET LOCAL transaction_read_only = on");
+      return await cursor.client.query(sql, params);
+    } finally {
+      await cursor.client.query("ROLLBACK TO SAVEPOINT mcp_read_only");
+      await cursor.client.query("RELEASE SAVEPOINT mcp_read_only");
+    }
+  }
+
+  // Planner row estimate for the statement, used as a total-count hint
+  private async estimateRows(client: pg.PoolClient, sql: string, params?: unknown[]): Promise<number | undefined> {
+    await client.query("SAVEPOINT mcp_estimate");
+    try {
+      const result = await client.query(`EXPLAIN (FORMAT JSON) ${sql}`, params);
+      await client.query("RELEASE SAVEPOINT mcp_estimate");
+      return result.rows[0]?.["QUERY PLAN"]?.[0]?.Plan?.["Plan Rows"];
+    } catch {
+      await client.query("ROLLBACK TO SAVEPOINT mcp_estimate");
+      return undefined;
+    }
+  }
+
+  // Keep the number of connections held by cursors below the database's limit
+  private async makeRoom(databaseId: string, maxOpenCursors: number): Promise<void> {
+    const open = Array.from(this.cursors.values())
+      .filter((cursor) => cursor.databaseId === databaseId)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    while (open.length > 0 && open.length >= maxOpenCursors) {
+      const oldest = open.shift()!;
+      this.cursors.delete(oldest.token);
+      await this.release(oldest);
+    }
+  }
+
+  private async release(cursor: OpenCursor): Promise<void> {
+    if (cursor.inTransaction) {
+      // Leave the transaction itself to its owner
+      if (cursor.declared) {
+        await cursor.client.query(`CLOSE ${quoteIdentifier(cursor.name)}`).catch(() => {});
+      }
+      cursor.client.release();
+      return;
+    }
+    try {
+      await cursor.client.query("ROLLBACK");
+      cursor.client.release();
+    } catch (error) {
+      // Don't hand a connection in an unknown state back to the pool
+      cursor.client.release(error instanceof Error ? error : true);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { randomUUID } from "crypto";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+const DEFAULT_MAX_EVENTS = 1000;
+
+// Keeps the most recent messages of one Streamable HTTP session so a client
+// that reconnects with Last-Event-ID can resume where it left off. One store
+// is created per session and goes away with it.
+export class InMemoryEventStore implements EventStore {
+  private readonly events = new Map<string, { streamId: string; message: JSONRPCMessage }>();
+
+  constructor(private readonly maxEvents: number = DEFAULT_MAX_EVENTS) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    // Event IDs carry the stream ID so replay knows which stream to resume
+    const eventId = `${streamId}_${Date.now()}_${randomUUID()}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Maps iterate in insertion order, so the first key is the oldest event
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value as string;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<string> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return "";
+    }
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
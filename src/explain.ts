@@ -0,0 +1,235 @@
+import pg from "pg";
+import { transactionScope } from "./transactions.js";
+
+// Statements EXPLAIN can plan; other statements are refused by explain_query
+export const EXPLAINABLE_STATEMENTS = new Set(["SelectStmt", "InsertStmt", "UpdateStmt", "DeleteStmt", "MergeStmt"]);
+
+// When a plan node is worth pointing out
+export interface PlanThresholds {
+  // Sequential scans of tables with at least this many rows
+  seqScanRows: number;
+  // Estimated and actual rows differing by this factor or more
+  estimateErrorFactor: number;
+  // Estimate errors are ignored when both counts are below this
+  estimateErrorMinRows: number;
+  // Nested loops whose outer side produces at least this many rows
+  nestedLoopOuterRows: number;
+}
+
+export const DEFAULT_PLAN_THRESHOLDS: PlanThresholds = {
+  seqScanRows: 10000,
+  estimateErrorFactor: 10,
+  estimateErrorMinRows: 1000,
+  nestedLoopOuterRows: 1000,
+};
+
+export type FindingSeverity = "high" | "medium" | "low";
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { high: 3, medium: 2, low: 1 };
+
+export interface PlanFinding {
+  severity: FindingSeverity;
+  // seq_scan, row_estimate, sort_spill, hash_spill or nested_loop
+  kind: string;
+  // Node type, and the relation it reads when there is one
+  node: string;
+  // Where the node sits in the raw plan, e.g. "Plan.Plans[0].Plans[1]"
+  path: string;
+  // Fraction of the execution time (with ANALYZE) or estimated cost spent in the node and below
+  share: number;
+  message: string;
+}
+
+export interface ExplainResult {
+  analyzed: boolean;
+  planningTimeMs: number | null;
+  executionTimeMs: number | null;
+  totalCost: number;
+  findings: PlanFinding[];
+  // EXPLAIN (FORMAT JSON) output as PostgreSQL returned it
+  plan: any;
+}
+
+export interface PlanNode {
+  node: any;
+  path: string;
+}
+
+// Depth-first list of a plan's nodes with their paths
+export function planNodes(root: any): PlanNode[] {
+  const nodes: PlanNode[] = [];
+  const visit = (node: any, path: string) => {
+    nodes.push({ node, path });
+    (node.Plans ?? []).forEach((child: any, index: number) => visit(child, `${path}.Plans[${index}]`));
+  };
+  visit(root, "Plan");
+  return nodes;
+}
+
+function relationName(node: any): string | undefined {
+  if (!node["Relation Name"]) {
+    return undefined;
+  }
+  return node.Schema ? `${node.Schema}.${node["Relation Name"]}` : node["Relation Name"];
+}
+
+function nodeLabel(node: any): string {
+  const relation = relationName(node);
+  return relation ? `${node["Node Type"]} on ${relation}` : node["Node Type"];
+}
+
+// Rows a node produced over all its loops, or the planner's estimate without ANALYZE
+function totalRows(node: any): number {
+  return node["Actual Rows"] !== undefined ? node["Actual Rows"] * (node["Actual Loops"] ?? 1) : node["Plan Rows"];
+}
+
+function formatCount(count: number): string {
+  return Math.round(count).toLocaleString("en-US");
+}
+
+// Plan a statement with EXPLAIN (FORMAT JSON, VERBOSE, BUFFERS), optionally
+// executing it with ANALYZE. Either way it runs in a transaction, or a
+// savepoint inside an explicit one, that is always rolled back.
+export async function explainQuery(
+  client: pg.ClientBase,
+  sql: string,
+  options: { params?: unknown[]; analyze: boolean; write: boolean; thresholds?: PlanThresholds },
+): Promise<ExplainResult> {
+  const explainOptions = ["FORMAT JSON", "VERBOSE", "BUFFERS", ...(options.analyze ? ["ANALYZE"] : [])];
+  // Only EXPLAIN ANALYZE of a write needs a transaction that may write
+  const scope = transactionScope(client, { readOnly: !(options.analyze && options.write) });
+  let output: any;
+  let tableRows: Map<string, number>;
+  await scope.begin();
+  try {
+    const result = await client.query(`EXPLAIN (${explainOptions.join(", ")}) ${sql}`, options.params);
+    output = result.rows[0]["QUERY PLAN"];
+    tableRows = await scannedTableRows(client, output[0].Plan);
+  } finally {
+    await scope.rollback();
+  }
+
+  const plan = output[0];
+  return {
+    analyzed: options.analyze,
+    planningTimeMs: plan["Planning Time"] ?? null,
+    executionTimeMs: plan["Execution Time"] ?? null,
+    totalCost: plan.Plan["Total Cost"],
+    findings: findPlanProblems(plan.Plan, tableRows, options.thresholds ?? DEFAULT_PLAN_THRESHOLDS),
+    plan: output,
+  };
+}
+
+// Estimated row counts of the tables a plan reads sequentially
+async function scannedTableRows(client: pg.ClientBase, root: any): Promise<Map<string, number>> {
+  const tables = planNodes(root)
+    .map(({ node }) => node)
+    .filter((node) => node["Node Type"] === "Seq Scan" && node.Schema && node["Relation Name"]);
+  if (tables.length === 0) {
+    return new Map();
+  }
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name, greatest(c.reltuples, 0)::bigint AS rows
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     JOIN unnest($1::text[], $2::text[]) AS t(schema, name) ON t.schema = n.nspname AND t.name = c.relname`,
+    [tables.map((node) => node.Schema), tables.map((node) => node["Relation Name"])],
+  );
+  return new Map(result.rows.map((row) => [`${row.schema}.${row.name}`, Number(row.rows)]));
+}
+
+// Walk a plan tree and list what is likely to make it slow, worst first
+function findPlanProblems(root: any, tableRows: Map<string, number>, thresholds: PlanThresholds): PlanFinding[] {
+  const analyzed = root["Actual Total Time"] !== undefined;
+  const total = analyzed ? root["Actual Total Time"] : root["Total Cost"];
+  const share = (node: any) => {
+    const spent = analyzed ? node["Actual Total Time"] * (node["Actual Loops"] ?? 1) : node["Total Cost"];
+    return total > 0 ? Math.min(1, Math.round((spent / total) * 100) / 100) : 0;
+  };
+
+  const findings: PlanFinding[] = [];
+  const add = (entry: PlanNode, severity: FindingSeverity, kind: string, message: string) => {
+    findings.push({ severity, kind, node: nodeLabel(entry.node), path: entry.path, share: share(entry.node), message });
+  };
+
+  for (const entry of planNodes(root)) {
+    const { node } = entry;
+    const type = node["Node Type"];
+
+    if (type === "Seq Scan") {
+      const relation = relationName(node)!;
+      // Statistics lag behind, so a scan that read more rows than they count goes by what it read
+      const rows = Math.max(tableRows.get(relation) ?? 0, totalRows(node) + (node["Rows Removed by Filter"] ?? 0));
+      if (rows >= thresholds.seqScanRows) {
+        const filter = node.Filter ? ` filtering on ${node.Filter}` : "";
+        const returned = formatCount(totalRows(node));
+        add(
+          entry,
+          rows >= thresholds.seqScanRows * 100 ? "high" : "medium",
+          "seq_scan",
+          `Sequential scan of ${relation} (~${formatCount(rows)} rows)${filter}, returning ${analyzed ? "" : "an estimated "}${returned} rows.` +
+            (node.Filter ? " An index on the filtered columns may avoid reading the whole table." : ""),
+        );
+      }
+    }
+
+    if (analyzed && node["Actual Loops"] > 0) {
+      const estimated = node["Plan Rows"];
+      const actual = node["Actual Rows"];
+      const factor = Math.max(estimated, actual) / Math.max(Math.min(estimated, actual), 1);
+      if (factor >= thresholds.estimateErrorFactor && Math.max(estimated, actual) >= thresholds.estimateErrorMinRows) {
+        add(
+          entry,
+          factor >= thresholds.estimateErrorFactor * 100 ? "high" : factor >= thresholds.estimateErrorFactor * 10 ? "medium" : "low",
+          "row_estimate",
+          `${nodeLabel(node)} was estimated at ${formatCount(estimated)} rows per loop but produced ${formatCount(actual)} ` +
+            `(${formatCount(factor)}x ${actual > estimated ? "more" : "fewer"}). Stale statistics are the usual cause; run ANALYZE, ` +
+            "or add extended statistics when filtered columns are correlated.",
+        );
+      }
+    }
+
+    if (type === "Sort" && (node["Sort Space Type"] === "Disk" || /external/i.test(node["Sort Method"] ?? ""))) {
+      const usedKb = node["Sort Space Used"] ?? 0;
+      add(
+        entry,
+        usedKb >= 100 * 1024 ? "high" : "medium",
+        "sort_spill",
+        `Sort spilled ${formatCount(usedKb)} kB to disk (${node["Sort Method"]}). Raising work_mem for this query, or ` +
+          "an index matching the sort order, would keep it in memory.",
+      );
+    }
+
+    const batches = Math.max(node["Hash Batches"] ?? 0, node["HashAgg Batches"] ?? 0);
+    if ((type === "Hash" || type === "Aggregate") && (batches > 1 || (node["Disk Usage"] ?? 0) > 0)) {
+      const what = type === "Hash" ? "Hash table" : "Hash aggregate";
+      add(
+        entry,
+        batches >= 16 ? "high" : "medium",
+        "hash_spill",
+        `${what} spilled to disk in ${formatCount(batches)} batches` +
+          `${node["Disk Usage"] ? ` (${formatCount(node["Disk Usage"])} kB)` : ""}. Raising work_mem or hash_mem_multiplier would keep it in memory.`,
+      );
+    }
+
+    if (type === "Nested Loop" && node.Plans?.length === 2) {
+      const [outer, inner] = node.Plans;
+      const outerRows = totalRows(outer);
+      if (outerRows >= thresholds.nestedLoopOuterRows) {
+        const innerScan = inner["Node Type"] === "Seq Scan" || inner["Node Type"] === "Materialize";
+        add(
+          entry,
+          innerScan || outerRows >= thresholds.nestedLoopOuterRows * 100 ? "high" : outerRows >= thresholds.nestedLoopOuterRows * 10 ? "medium" : "low",
+          "nested_loop",
+          `Nested loop runs its inner side (${nodeLabel(inner)}) once for each of ${analyzed ? "" : "an estimated "}` +
+            `${formatCount(outerRows)} outer rows from ${nodeLabel(outer)}. ` +
+            (innerScan
+              ? "The inner side is rescanned every time; an index on the join columns would help."
+              : "A hash or merge join may be cheaper; check the row estimates of the outer side."),
+        );
+      }
+    }
+  }
+
+  return findings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.share - a.share);
+}
@@ -0,0 +1,364 @@
+import { randomUUID } from "crypto";
+import { FileHandle, mkdir, open, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import pg from "pg";
+import { to as copyTo } from "pg-copy-streams";
+import {
+  Binary,
+  Bool,
+  DataType,
+  Field,
+  Float32,
+  Float64,
+  Int16,
+  Int32,
+  Int64,
+  RecordBatch,
+  RecordBatchFileWriter,
+  Schema,
+  Struct,
+  Utf8,
+  makeBuilder,
+  makeData,
+} from "apache-arrow";
+import { SqlValidationError, quoteIdentifier } from "./sql.js";
+import { isTransactionClient, transactionScope } from "./transactions.js";
+
+// Where and how large export_query files may be, declared per database in
+// databases.json under "exports"
+export interface ExportSettings {
+  // Directory the files are written to, created if missing
+  directory: string;
+  // Most bytes a single export may write
+  maxBytes: number;
+  // Files are deleted this long after they were written
+  retentionMs: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  directory: join(tmpdir(), "mcp-postgres-exports"),
+  maxBytes: 100 * 1024 * 1024,
+  retentionMs: 24 * 60 * 60 * 1000,
+};
+
+// Merge configured settings over the defaults, rejecting invalid values
+export function resolveExportSettings(settings: Partial<ExportSettings> | undefined, databaseId: string): ExportSettings {
+  const resolved = { ...DEFAULT_EXPORT_SETTINGS, ...settings };
+  if (typeof resolved.directory !== "string" || resolved.directory.trim() === "") {
+    throw new Error(`exports for database '${databaseId}': 'directory' must be a non-empty string`);
+  }
+  for (const key of ["maxBytes", "retentionMs"] as const) {
+    const value = resolved[key];
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`exports for database '${databaseId}': '${key}' must be a positive integer`);
+    }
+  }
+  return { ...resolved, directory: resolve(resolved.directory) };
+}
+
+export type ExportFormat = "csv" | "ndjson" | "arrow";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv" },
+  ndjson: { extension: "ndjson", mimeType: "application/x-ndjson" },
+  arrow: { extension: "arrow", mimeType: "application/vnd.apache.arrow.file" },
+};
+
+export interface ExportedFile {
+  // File name within the export directory, also the last segment of its resource URI
+  name: string;
+  databaseId: string;
+  principalId?: string;
+  format: ExportFormat;
+  path: string;
+  rows: number;
+  bytes: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Rows read per FETCH when an export is streamed through a cursor
+const FETCH_ROWS = 1000;
+
+// Writes an export to its file, counting bytes against the size limit
+class ExportOutput {
+  bytes = 0;
+  overflow = false;
+
+  constructor(private readonly handle: FileHandle, private readonly maxBytes: number) {}
+
+  // Returns false, writing nothing, once the export has outgrown the limit
+  async write(chunk: string | Uint8Array): Promise<boolean> {
+    if (this.overflow) {
+      return false;
+    }
+    const data = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    this.bytes += data.length;
+    if (this.bytes > this.maxBytes) {
+      this.overflow = true;
+      return false;
+    }
+    await this.handle.write(data);
+    return true;
+  }
+}
+
+// Type parsers that leave every value in PostgreSQL's text format, as COPY writes it
+const TEXT_TYPES = {
+  getTypeParser: (_oid: number, _format?: "text" | "binary") => (value: string) => value,
+};
+
+// Arrow columns for PostgreSQL types by OID; every other type becomes a
+// string column holding PostgreSQL's text format
+const ARROW_COLUMN_TYPES = new Map<number, () => DataType>([
+  [16, () => new Bool()],
+  [17, () => new Binary()],
+  [20, () => new Int64()],
+  [21, () => new Int16()],
+  [23, () => new Int32()],
+  [700, () => new Float32()],
+  [701, () => new Float64()],
+]);
+
+const ARROW_TYPES = {
+  getTypeParser: (oid: number, format?: "text" | "binary") => {
+    if (oid === 20) {
+      return (value: string) => BigInt(value);
+    }
+    return ARROW_COLUMN_TYPES.has(oid) ? pg.types.getTypeParser(oid, format) : (value: string) => value;
+  },
+};
+
+// Files written by export_query, readable as resources by the principal that
+// wrote them until they expire
+export class ExportRegistry {
+  private readonly files = new Map<string, ExportedFile>();
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    this.sweeper = setInterval(() => {
+      this.deleteExpired().catch((error) => console.error("Error deleting expired exports:", error));
+    }, sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  // Run a read-only SELECT and write its result to a new file. CSV without
+  // parameters streams through COPY TO STDOUT; everything else is read
+  // through a cursor a batch at a time.
+  async run(
+    client: pg.ClientBase,
+    sql: string,
+    options: {
+      databaseId: string;
+      principalId?: string;
+      format: ExportFormat;
+      params?: unknown[];
+      settings: ExportSettings;
+    },
+  ): Promise<ExportedFile> {
+    const { extension } = EXPORT_FORMATS[options.format];
+    const name = `${randomUUID()}.${extension}`;
+    const path = join(options.settings.directory, name);
+    await mkdir(options.settings.directory, { recursive: true });
+
+    const handle = await open(path, "wx");
+    const output = new ExportOutput(handle, options.settings.maxBytes);
+    const scope = transactionScope(client, { readOnly: true });
+    let rows: number;
+    try {
+      await scope.begin();
+      try {
+        // COPY can't take bind parameters, and one stopped midway would leave
+        // an explicit transaction's connection unusable
+        if (options.format === "csv" && !options.params?.length && !isTransactionClient(client)) {
+          rows = await copyCsv(client, sql, output);
+        } else if (options.format === "arrow") {
+          rows = await writeArrow(client, sql, options.params, output);
+        } else {
+          rows = await writeRows(client, sql, options.params, options.format, output);
+        }
+        await scope.commit();
+      } catch (error) {
+        await scope.rollback();
+        throw error;
+      }
+      if (output.overflow) {
+        throw new SqlValidationError(
+          `Export is larger than the ${options.settings.maxBytes} byte limit; narrow the query or select fewer columns`,
+          "sql",
+          "export_too_large",
+        );
+      }
+    } catch (error) {
+      await handle.close();
+      await rm(path, { force: true });
+      throw error;
+    }
+    await handle.close();
+
+    const now = Date.now();
+    const file: ExportedFile = {
+      name,
+      databaseId: options.databaseId,
+      principalId: options.principalId,
+      format: options.format,
+      path,
+      rows,
+      bytes: output.bytes,
+      createdAt: now,
+      expiresAt: now + options.settings.retentionMs,
+    };
+    this.files.set(name, file);
+    return file;
+  }
+
+  get(databaseId: string, name: string, principalId: string | undefined): ExportedFile {
+    const file = this.files.get(name);
+    if (!file || file.databaseId !== databaseId || file.principalId !== principalId || file.expiresAt <= Date.now()) {
+      throw new SqlValidationError(`Export '${name}' not found. It may have expired.`, "uri", "not_found");
+    }
+    return file;
+  }
+
+  async read(file: ExportedFile): Promise<Buffer> {
+    return readFile(file.path);
+  }
+
+  // Unexpired exports written by a principal
+  list(principalId: string | undefined, now: number = Date.now()): ExportedFile[] {
+    return Array.from(this.files.values()).filter(
+      (file) => file.principalId === principalId && file.expiresAt > now,
+    );
+  }
+
+  async deleteExpired(now: number = Date.now()): Promise<void> {
+    for (const file of Array.from(this.files.values())) {
+      if (file.expiresAt <= now) {
+        this.files.delete(file.name);
+        await rm(file.path, { force: true });
+      }
+    }
+  }
+}
+
+async function copyCsv(client: pg.ClientBase, sql: string, output: ExportOutput): Promise<number> {
+  const stream = client.query(copyTo(`COPY (${sql}) TO STDOUT WITH (FORMAT csv, HEADER)`));
+  // Ending a COPY early would leave the connection unusable, so output past
+  // the size limit is read and dropped; statement_timeout bounds how long
+  for await (const chunk of stream) {
+    await output.write(chunk);
+  }
+  return stream.rowCount;
+}
+
+// Read a SELECT's result through a cursor, one batch at a time
+async function* fetchBatches(
+  client: pg.ClientBase,
+  sql: string,
+  params: unknown[] | undefined,
+  options: { types?: pg.CustomTypesConfig; rowMode?: "array" } = {},
+): AsyncGenerator<pg.QueryResult> {
+  const name = quoteIdentifier(`mcp_export_${randomUUID().replace(/-/g, "")}`);
+  await client.query(`DECLARE ${name} NO SCROLL CURSOR FOR ${sql}`, params);
+  for (;;) {
+    const result = await client.query({ text: `FETCH ${FETCH_ROWS} FROM ${name}`, ...options });
+    yield result;
+    if (result.rows.length < FETCH_ROWS) {
+      break;
+    }
+  }
+  await client.query(`CLOSE ${name}`);
+}
+
+async function writeRows(
+  client: pg.ClientBase,
+  sql: string,
+  params: unknown[] | undefined,
+  format: "csv" | "ndjson",
+  output: ExportOutput,
+): Promise<number> {
+  let rows = 0;
+  let header = format === "csv";
+  // CSV rows are read as arrays so that repeated column names keep their own values
+  const options = format === "csv" ? { types: TEXT_TYPES, rowMode: "array" as const } : {};
+  for await (const result of fetchBatches(client, sql, params, options)) {
+    const lines: string[] = [];
+    if (header) {
+      lines.push(result.fields.map((field) => csvField(field.name)).join(",") + "\n");
+      header = false;
+    }
+    for (const row of result.rows) {
+      lines.push(
+        format === "csv"
+          ? row.map(csvField).join(",") + "\n"
+          : JSON.stringify(row) + "\n",
+      );
+    }
+    rows += result.rows.length;
+    if (!(await output.write(lines.join("")))) {
+      break;
+    }
+  }
+  return rows;
+}
+
+// Quote a CSV field the way COPY does: NULL is an empty unquoted field, and
+// values are quoted when empty or holding a delimiter, quote or line break
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return text === "" || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeArrow(
+  client: pg.ClientBase,
+  sql: string,
+  params: unknown[] | undefined,
+  output: ExportOutput,
+): Promise<number> {
+  const writer = new RecordBatchFileWriter();
+  let failure: unknown;
+  // The writer hands back encoded bytes asynchronously; write them out as they come
+  const drained = (async () => {
+    for await (const chunk of writer) {
+      if (failure === undefined) {
+        await output.write(chunk).catch((error) => {
+          failure = error;
+        });
+      }
+    }
+  })();
+
+  let rows = 0;
+  let schema: Schema | undefined;
+  try {
+    for await (const result of fetchBatches(client, sql, params, { types: ARROW_TYPES, rowMode: "array" })) {
+      schema ??= new Schema(
+        result.fields.map((field) => new Field(field.name, ARROW_COLUMN_TYPES.get(field.dataTypeID)?.() ?? new Utf8(), true)),
+      );
+      const children = schema.fields.map((field, index) => {
+        const builder = makeBuilder({ type: field.type, nullValues: [null, undefined] });
+        for (const row of result.rows) {
+          builder.append(row[index]);
+        }
+        return builder.finish().flush();
+      });
+      // Written even when empty, so that a file without rows still has a schema
+      writer.write(new RecordBatch(schema, makeData({ type: new Struct(schema.fields), length: result.rows.length, nullCount: 0, children })));
+      rows += result.rows.length;
+      if (failure !== undefined || output.overflow) {
+        break;
+      }
+    }
+  } finally {
+    writer.finish();
+    await drained;
+  }
+  if (failure !== undefined) {
+    throw failure;
+  }
+  return rows;
+}
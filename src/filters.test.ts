@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileFilter } from "./filters.js";
+import { ColumnInfo, ResolvedTable, SqlValidationError } from "./sql.js";
+
+const table: ResolvedTable = { schema: "public", name: "accounts", kind: "r", sql: '"public"."accounts"' };
+
+const columns = new Map<string, ColumnInfo>([
+  ["tenant", { name: "tenant", dataType: "integer", udtName: "int4", isNullable: false }],
+  ["email", { name: "email", dataType: "text", udtName: "text", isNullable: true }],
+]);
+
+function compile(filter: unknown, options: { firstParam?: number; allowAllRows?: boolean } = {}) {
+  return compileFilter(filter, table, columns, { field: "conditions", ...options });
+}
+
+function rejection(filter: unknown): SqlValidationError {
+  try {
+    compile(filter);
+  } catch (error) {
+    assert.ok(error instanceof SqlValidationError);
+    return error;
+  }
+  assert.fail(`expected ${JSON.stringify(filter)} to be rejected`);
+}
+
+describe("compileFilter", () => {
+  it("compiles column conditions to parameterized SQL", () => {
+    assert.deepEqual(compile({ tenant: 5, email: null }), { sql: '("tenant" = $1) AND ("email" IS NULL)', params: ["5"] });
+    assert.deepEqual(compile({ tenant: { gte: 1, lt: 9 } }, { firstParam: 3 }), {
+      sql: '"tenant" >= $3 AND "tenant" < $4',
+      params: ["1", "9"],
+    });
+    assert.deepEqual(compile({ email: { ilike: "%@example.com" } }).sql, '"email" ILIKE $1');
+  });
+
+  it("compiles $and, $or and $not groups", () => {
+    assert.deepEqual(compile({ tenant: 5, $or: [{ email: "a@b.c" }, { email: { is_null: true } }] }), {
+      sql: '("tenant" = $1) AND (("email" = $2) OR ("email" IS NULL))',
+      params: ["5", "a@b.c"],
+    });
+    assert.equal(compile({ $not: { tenant: { in: [1, 2] } } }).sql, 'NOT ("tenant" IN ($1, $2))');
+  });
+
+  it("refuses empty groups instead of dropping them", () => {
+    for (const filter of [
+      { tenant: 5, $or: [] },
+      { tenant: 5, $and: [] },
+      { tenant: 5, $not: {} },
+      { tenant: 5, $or: [{}, { tenant: 6 }] },
+      { tenant: 5, $not: { $or: [{}] } },
+    ]) {
+      assert.equal(rejection(filter).code, "invalid_input");
+    }
+    assert.equal(rejection({ tenant: 5, $or: [{}, { tenant: 6 }] }).field, "conditions.$or[0]");
+  });
+
+  it("refuses an empty filter unless every row is allowed", () => {
+    assert.equal(rejection({}).code, "filter_required");
+    assert.equal(rejection(undefined).code, "filter_required");
+    assert.deepEqual(compile({}, { allowAllRows: true }), { sql: "TRUE", params: [] });
+  });
+
+  it("rejects unknown columns, operators and groups", () => {
+    assert.equal(rejection({ missing: 1 }).code, "not_found");
+    assert.match(rejection({ tenant: { constructor: 1 } }).message, /Unknown filter operator/);
+    assert.match(rejection({ $nor: [] }).message, /Unknown filter group/);
+  });
+});
@@ -0,0 +1,214 @@
+import { coerceColumnValues, columnParameterType } from "./params.js";
+import { ColumnInfo, ResolvedTable, SqlValidationError, quoteIdentifier, resolveColumn } from "./sql.js";
+
+// Structured row filters shared by select_rows, update_entry and delete_entry.
+// A filter is an object whose keys are column names or the groups $and, $or
+// and $not; every key must hold for a row to match:
+//   { "status": "active" }                        equality; null means IS NULL
+//   { "age": { "gte": 18, "lt": 65 } }            operators on one column
+//   { "$or": [ { "role": "admin" }, { "id": { "in": [1, 2] } } ] }
+//   { "$not": { "email": { "ilike": "%@example.com" } } }
+export interface CompiledFilter {
+  // SQL boolean expression; TRUE for an empty filter when all rows are allowed
+  sql: string;
+  params: unknown[];
+}
+
+const COMPARISON_OPERATORS: Record<string, string> = {
+  eq: "=",
+  ne: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+const PATTERN_OPERATORS: Record<string, string> = {
+  like: "LIKE",
+  not_like: "NOT LIKE",
+  ilike: "ILIKE",
+  not_ilike: "NOT ILIKE",
+};
+
+const LIST_OPERATORS: Record<string, string> = {
+  in: "IN",
+  not_in: "NOT IN",
+};
+
+export const FILTER_OPERATORS = [
+  ...Object.keys(COMPARISON_OPERATORS),
+  ...Object.keys(LIST_OPERATORS),
+  ...Object.keys(PATTERN_OPERATORS),
+  "between",
+  "is_null",
+];
+
+const MAX_FILTER_DEPTH = 16;
+
+// Own keys only, so names like "constructor" aren't taken for operators
+function hasOperator(operators: Record<string, string>, operator: string): boolean {
+  return Object.prototype.hasOwnProperty.call(operators, operator);
+}
+
+interface PendingValue {
+  column: ColumnInfo;
+  value: unknown;
+  field: string;
+}
+
+class FilterCompiler {
+  readonly values: PendingValue[] = [];
+
+  constructor(
+    private readonly table: ResolvedTable,
+    private readonly columns: Map<string, ColumnInfo>,
+    private readonly firstParam: number,
+  ) {}
+
+  // Returns undefined for a top-level filter with no conditions. Nested empty
+  // filters and groups are refused rather than dropped: leaving out an empty
+  // $or or $not would widen the filter around it.
+  compile(filter: unknown, field: string, depth: number = 0): string | undefined {
+    if (depth > MAX_FILTER_DEPTH) {
+      throw new SqlValidationError(`Filter is nested more than ${MAX_FILTER_DEPTH} levels deep`, field);
+    }
+    if (typeof filter !== "object" || filter === null || Array.isArray(filter)) {
+      throw new SqlValidationError("Filter must be an object of column conditions and $and/$or/$not groups", field);
+    }
+
+    const entries = Object.entries(filter);
+    if (entries.length === 0) {
+      if (depth > 0) {
+        throw new SqlValidationError("Filters inside $and, $or and $not must have at least one condition", field);
+      }
+      return undefined;
+    }
+
+    const clauses = entries.map(([key, value]) => {
+      const keyField = `${field}.${key}`;
+      if (key === "$and" || key === "$or") {
+        return this.group(key === "$and" ? "AND" : "OR", value, keyField, depth);
+      }
+      if (key === "$not") {
+        return `NOT (${this.compile(value, keyField, depth + 1)})`;
+      }
+      if (key.startsWith("$")) {
+        throw new SqlValidationError(`Unknown filter group "${key}"; use $and, $or or $not`, keyField);
+      }
+      return this.column(key, value, keyField);
+    });
+    return clauses.length === 1 ? clauses[0] : clauses.map((clause) => `(${clause})`).join(" AND ");
+  }
+
+  private group(joiner: "AND" | "OR", filters: unknown, field: string, depth: number): string {
+    if (!Array.isArray(filters) || filters.length === 0) {
+      throw new SqlValidationError("Filter groups must be non-empty arrays of filters", field);
+    }
+    const clauses = filters.map((filter, index) => this.compile(filter, `${field}[${index}]`, depth + 1)!);
+    return clauses.length === 1 ? clauses[0] : clauses.map((clause) => `(${clause})`).join(` ${joiner} `);
+  }
+
+  private column(key: string, condition: unknown, field: string): string {
+    const column = resolveColumn(this.columns, this.table, key, field);
+    const identifier = quoteIdentifier(column.name);
+
+    // Plain values compare for equality; JSON objects must be wrapped in { "eq": ... }
+    if (condition === null) {
+      return `${identifier} IS NULL`;
+    }
+    if (typeof condition !== "object" || Array.isArray(condition)) {
+      return `${identifier} = ${this.placeholder(column, condition, field)}`;
+    }
+
+    const operators = Object.entries(condition);
+    if (operators.length === 0) {
+      throw new SqlValidationError("Column condition must have at least one operator", field);
+    }
+    const clauses = operators.map(([operator, operand]) =>
+      this.operator(column, identifier, operator, operand, `${field}.${operator}`),
+    );
+    return clauses.length === 1 ? clauses[0] : clauses.join(" AND ");
+  }
+
+  private operator(column: ColumnInfo, identifier: string, operator: string, operand: unknown, field: string): string {
+    if (hasOperator(COMPARISON_OPERATORS, operator)) {
+      if (operand === null) {
+        // "= NULL" never matches, so treat eq/ne null as IS [NOT] NULL
+        if (operator === "eq" || operator === "ne") {
+          return `${identifier} ${operator === "eq" ? "IS NULL" : "IS NOT NULL"}`;
+        }
+        throw new SqlValidationError(`Operator "${operator}" cannot compare with null`, field);
+      }
+      return `${identifier} ${COMPARISON_OPERATORS[operator]} ${this.placeholder(column, operand, field)}`;
+    }
+
+    if (hasOperator(LIST_OPERATORS, operator)) {
+      if (!Array.isArray(operand) || operand.length === 0) {
+        throw new SqlValidationError(`Operator "${operator}" takes a non-empty array of values`, field);
+      }
+      const placeholders = operand.map((value, index) => this.placeholder(column, value, `${field}[${index}]`));
+      return `${identifier} ${LIST_OPERATORS[operator]} (${placeholders.join(", ")})`;
+    }
+
+    if (hasOperator(PATTERN_OPERATORS, operator)) {
+      if (typeof operand !== "string") {
+        throw new SqlValidationError(`Operator "${operator}" takes a string pattern`, field);
+      }
+      // Patterns match the text form of non-text columns
+      const target = columnParameterType(column).category === "S" ? identifier : `CAST(${identifier} AS text)`;
+      this.values.push({ column: { ...column, dataType: "text", udtName: "text" }, value: operand, field });
+      return `${target} ${PATTERN_OPERATORS[operator]} $${this.firstParam + this.values.length - 1}`;
+    }
+
+    if (operator === "between") {
+      if (!Array.isArray(operand) || operand.length !== 2 || operand.some((value) => value === null)) {
+        throw new SqlValidationError('Operator "between" takes an array of two non-null values [low, high]', field);
+      }
+      const low = this.placeholder(column, operand[0], `${field}[0]`);
+      const high = this.placeholder(column, operand[1], `${field}[1]`);
+      return `${identifier} BETWEEN ${low} AND ${high}`;
+    }
+
+    if (operator === "is_null") {
+      if (typeof operand !== "boolean") {
+        throw new SqlValidationError('Operator "is_null" takes true or false', field);
+      }
+      return `${identifier} ${operand ? "IS NULL" : "IS NOT NULL"}`;
+    }
+
+    throw new SqlValidationError(
+      `Unknown filter operator "${operator}"; supported operators are ${FILTER_OPERATORS.join(", ")}`,
+      field,
+    );
+  }
+
+  private placeholder(column: ColumnInfo, value: unknown, field: string): string {
+    this.values.push({ column, value, field });
+    return `$${this.firstParam + this.values.length - 1}`;
+  }
+}
+
+// Compile a filter against a table's columns into a parameterized WHERE
+// expression with placeholders numbered from firstParam. A filter without
+// conditions is refused unless allowAllRows is set, so a missing or empty
+// filter can never silently affect every row.
+export function compileFilter(
+  filter: unknown,
+  table: ResolvedTable,
+  columns: Map<string, ColumnInfo>,
+  options: { field: string; firstParam?: number; allowAllRows?: boolean },
+): CompiledFilter {
+  const compiler = new FilterCompiler(table, columns, options.firstParam ?? 1);
+  const sql = filter === undefined ? undefined : compiler.compile(filter, options.field);
+  if (sql === undefined) {
+    if (!options.allowAllRows) {
+      throw new SqlValidationError(
+        "Filter has no conditions and would match every row; pass allow_all_rows: true to confirm",
+        options.field,
+        "filter_required",
+      );
+    }
+    return { sql: "TRUE", params: [] };
+  }
+  return { sql, params: coerceColumnValues(compiler.values, false) };
+}
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_HEALTH_THRESHOLDS,
+  HealthThresholdSettings,
+  overrideHealthThresholds,
+  resolveHealthThresholds,
+} from "./health.js";
+import { SqlValidationError } from "./sql.js";
+
+// Resolve settings as databases.json may hold them, whatever their shape
+function resolveConfigured(settings: unknown) {
+  return resolveHealthThresholds(settings as HealthThresholdSettings, "main");
+}
+
+describe("resolveHealthThresholds", () => {
+  it("falls back to the defaults", () => {
+    assert.deepEqual(resolveHealthThresholds(undefined, "main"), DEFAULT_HEALTH_THRESHOLDS);
+    assert.deepEqual(resolveHealthThresholds({}, "main"), DEFAULT_HEALTH_THRESHOLDS);
+  });
+
+  it("merges settings and nested bloat settings over the defaults", () => {
+    const thresholds = resolveHealthThresholds({ deadTuples: 50, bloat: { tablePercent: 10 } }, "main");
+    assert.equal(thresholds.deadTuples, 50);
+    assert.equal(thresholds.cacheHitRate, DEFAULT_HEALTH_THRESHOLDS.cacheHitRate);
+    assert.deepEqual(thresholds.bloat, { ...DEFAULT_HEALTH_THRESHOLDS.bloat, tablePercent: 10 });
+  });
+
+  it("rejects invalid settings naming the database", () => {
+    const invalid: [unknown, RegExp][] = [
+      ["strict", /must be an object/],
+      [{ bloat: 5 }, /'bloat' must be an object/],
+      [{ foo: 1 }, /'foo' is not a health threshold/],
+      [{ bloat: { foo: 1 } }, /'bloat\.foo' is not a health threshold/],
+      [{ constructor: 1 }, /'constructor' is not a health threshold/],
+      [{ bloat: { toString: 1 } }, /'bloat\.toString' is not a health threshold/],
+      [{ cacheHitRate: 1.5 }, /'cacheHitRate' must be a number between 0 and 1/],
+      [{ bloat: { indexPercent: 101 } }, /'bloat\.indexPercent' must be a number between 0 and 100/],
+      [{ deadTuples: -1 }, /'deadTuples' must be a non-negative integer/],
+      [{ deadTuples: 1.5 }, /'deadTuples' must be a non-negative integer/],
+      [{ connectionUsageWarn: 0.99 }, /'connectionUsageWarn' must not be above 'connectionUsageCritical'/],
+    ];
+    for (const [settings, message] of invalid) {
+      assert.throws(() => resolveConfigured(settings), {
+        name: "Error",
+        message: new RegExp(`^healthThresholds for database 'main': ${message.source}`),
+      });
+    }
+  });
+});
+
+describe("overrideHealthThresholds", () => {
+  const database = resolveHealthThresholds({ sequenceUsageWarn: 0.5, sequenceUsageCritical: 0.6 }, "main");
+
+  it("applies a call's overrides over the database's thresholds", () => {
+    const thresholds = overrideHealthThresholds(database, { sequenceUsageCritical: 0.9 }, "thresholds");
+    assert.equal(thresholds.sequenceUsageWarn, 0.5);
+    assert.equal(thresholds.sequenceUsageCritical, 0.9);
+    assert.equal(overrideHealthThresholds(database, undefined, "thresholds"), database);
+  });
+
+  it("checks warn levels against the merged thresholds", () => {
+    assert.throws(
+      () => overrideHealthThresholds(database, { sequenceUsageWarn: 0.7 }, "thresholds"),
+      (error: unknown) =>
+        error instanceof SqlValidationError &&
+        error.field === "thresholds" &&
+        /'sequenceUsageWarn' must not be above 'sequenceUsageCritical'/.test(error.message),
+    );
+  });
+});
@@ -0,0 +1,664 @@
+import pg from "pg";
+import { BloatThresholds, DEFAULT_BLOAT_THRESHOLDS, estimateBloat, formatBytes } from "./bloat.js";
+import { SqlValidationError, formatQualifiedName } from "./sql.js";
+
+export type HealthStatus = "ok" | "warn" | "critical";
+
+// Checks database_health_check can run
+export const HEALTH_CHECK_TYPES = ["index", "connection", "vacuum", "sequence", "replication", "buffer", "constraint", "bloat"] as const;
+
+export type HealthCheckType = (typeof HEALTH_CHECK_TYPES)[number];
+
+// Where the checks start warning or turn critical, declared per database in
+// databases.json under "healthThresholds". Usage and hit rates are ratios
+// between 0 and 1.
+export interface HealthThresholds {
+  connectionUsageWarn: number;
+  connectionUsageCritical: number;
+  transactionIdAgeWarn: number;
+  transactionIdAgeCritical: number;
+  // Tables with more dead tuples than this are listed for vacuuming
+  deadTuples: number;
+  sequenceUsageWarn: number;
+  sequenceUsageCritical: number;
+  // Never-scanned indexes smaller than this aren't reported
+  unusedIndexBytes: number;
+  // Cache hit rates below this warn
+  cacheHitRate: number;
+  bloat: BloatThresholds;
+}
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  connectionUsageWarn: 0.8,
+  connectionUsageCritical: 0.95,
+  transactionIdAgeWarn: 1000000000,
+  transactionIdAgeCritical: 1500000000,
+  deadTuples: 1000,
+  sequenceUsageWarn: 0.8,
+  sequenceUsageCritical: 0.95,
+  unusedIndexBytes: 1024 * 1024,
+  cacheHitRate: 0.95,
+  bloat: DEFAULT_BLOAT_THRESHOLDS,
+};
+
+// Thresholds as databases.json and database_health_check take them: any of
+// them, over the defaults or the database's own
+export type HealthThresholdSettings = Partial<Omit<HealthThresholds, "bloat">> & { bloat?: Partial<BloatThresholds> };
+
+const RATIO_THRESHOLDS = ["connectionUsageWarn", "connectionUsageCritical", "sequenceUsageWarn", "sequenceUsageCritical", "cacheHitRate"];
+const PERCENT_THRESHOLDS = ["tablePercent", "indexPercent"];
+// Warn levels and the critical levels they must not exceed
+const THRESHOLD_LEVELS = [
+  ["connectionUsageWarn", "connectionUsageCritical"],
+  ["transactionIdAgeWarn", "transactionIdAgeCritical"],
+  ["sequenceUsageWarn", "sequenceUsageCritical"],
+] as const;
+
+// Why a threshold value is invalid, or undefined
+function thresholdProblem(key: string, value: unknown): string | undefined {
+  if (RATIO_THRESHOLDS.includes(key)) {
+    return typeof value === "number" && value >= 0 && value <= 1 ? undefined : "must be a number between 0 and 1";
+  }
+  if (PERCENT_THRESHOLDS.includes(key)) {
+    return typeof value === "number" && value >= 0 && value <= 100 ? undefined : "must be a number between 0 and 100";
+  }
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 ? undefined : "must be a non-negative integer";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Merge settings over a set of thresholds, or describe why they are invalid
+function mergeThresholds(base: HealthThresholds, settings: unknown): HealthThresholds | string {
+  if (settings === undefined) {
+    return base;
+  }
+  if (!isObject(settings)) {
+    return "must be an object";
+  }
+  const { bloat, ...levels } = settings;
+  if (bloat !== undefined && !isObject(bloat)) {
+    return "'bloat' must be an object";
+  }
+  const checks: [string, Record<string, unknown>, object][] = [
+    ["", levels, base],
+    ["bloat.", bloat ?? {}, base.bloat],
+  ];
+  for (const [prefix, values, known] of checks) {
+    for (const [key, value] of Object.entries(values)) {
+      if (!Object.prototype.hasOwnProperty.call(known, key)) {
+        return `'${prefix}${key}' is not a health threshold`;
+      }
+      const problem = thresholdProblem(key, value);
+      if (problem) {
+        return `'${prefix}${key}' ${problem}`;
+      }
+    }
+  }
+  const merged: HealthThresholds = { ...base, ...levels, bloat: { ...base.bloat, ...bloat } };
+  for (const [warn, critical] of THRESHOLD_LEVELS) {
+    if (merged[warn] > merged[critical]) {
+      return `'${warn}' must not be above '${critical}'`;
+    }
+  }
+  return merged;
+}
+
+// Merge a database's configured thresholds over the defaults, rejecting invalid values
+export function resolveHealthThresholds(settings: HealthThresholdSettings | undefined, databaseId: string): HealthThresholds {
+  const resolved = mergeThresholds(DEFAULT_HEALTH_THRESHOLDS, settings);
+  if (typeof resolved === "string") {
+    throw new Error(`healthThresholds for database '${databaseId}': ${resolved}`);
+  }
+  return resolved;
+}
+
+// Apply a tool call's threshold overrides to a database's thresholds
+export function overrideHealthThresholds(thresholds: HealthThresholds, overrides: unknown, field: string): HealthThresholds {
+  const resolved = mergeThresholds(thresholds, overrides);
+  if (typeof resolved === "string") {
+    throw new SqlValidationError(`${field}: ${resolved}`, field);
+  }
+  return resolved;
+}
+
+export type HealthMetrics = Record<string, number | string | null>;
+
+// One object a check found something about, e.g. an unused index
+export interface HealthItem {
+  object?: string;
+  status: HealthStatus;
+  message: string;
+  metrics: HealthMetrics;
+  remediation?: string;
+}
+
+export interface HealthCheckResult {
+  check: HealthCheckType;
+  // error when the check couldn't run, e.g. for lack of privileges
+  status: HealthStatus | "error";
+  summary: string;
+  // Caveats about how the check measured
+  note?: string;
+  metrics: HealthMetrics;
+  thresholds: HealthMetrics;
+  items: HealthItem[];
+  remediation: string[];
+  error?: string;
+}
+
+export interface HealthReport {
+  database: string;
+  name: string;
+  generatedAt: string;
+  // 0 to 100: the average of the checks that ran, counting ok as 100, warn as 50 and critical as 0
+  score: number | null;
+  status: HealthStatus | "error";
+  checks: HealthCheckResult[];
+}
+
+const SEVERITY: Record<HealthStatus, number> = { ok: 0, warn: 1, critical: 2 };
+const SCORES: Record<HealthStatus, number> = { ok: 100, warn: 50, critical: 0 };
+
+function worst(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce((a, b) => (SEVERITY[b] > SEVERITY[a] ? b : a), "ok" as HealthStatus);
+}
+
+function ratio(value: number, digits: number = 4): number {
+  return Math.round(value * 10 ** digits) / 10 ** digits;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function timestamp(value: Date | null): string | null {
+  return value ? value.toISOString() : null;
+}
+
+interface CheckOutcome {
+  status?: HealthStatus;
+  summary: string;
+  note?: string;
+  metrics: HealthMetrics;
+  thresholds: HealthMetrics;
+  items?: HealthItem[];
+  remediation?: string[];
+}
+
+interface CheckOptions {
+  thresholds: HealthThresholds;
+}
+
+// Invalid indexes left behind by failed concurrent builds, and large indexes
+// that have never been scanned
+async function checkIndexes(client: pg.ClientBase, { thresholds }: CheckOptions): Promise<CheckOutcome> {
+  const invalid = await client.query(`
+    SELECT n.nspname AS schema, ic.relname AS name, c.relname AS table_name, pg_relation_size(ic.oid) AS bytes
+    FROM pg_index i
+    JOIN pg_class ic ON ic.oid = i.indexrelid
+    JOIN pg_class c ON c.oid = i.indrelid
+    JOIN pg_namespace n ON n.oid = ic.relnamespace
+    WHERE NOT i.indisvalid AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+  `);
+  // Unique indexes enforce constraints whether or not queries use them
+  const unused = await client.query(
+    `SELECT s.schemaname AS schema, s.indexrelname AS name, s.relname AS table_name, pg_relation_size(s.indexrelid) AS bytes
+     FROM pg_stat_user_indexes s
+     JOIN pg_index i ON i.indexrelid = s.indexrelid
+     WHERE s.idx_scan = 0 AND NOT i.indisunique AND i.indisvalid AND pg_relation_size(s.indexrelid) >= $1
+     ORDER BY bytes DESC`,
+    [thresholds.unusedIndexBytes],
+  );
+
+  const items: HealthItem[] = [
+    ...invalid.rows.map((row): HealthItem => {
+      const name = formatQualifiedName({ schema: row.schema, name: row.name });
+      return {
+        object: name,
+        status: "warn",
+        message: `Invalid index ${name} on ${formatQualifiedName({ schema: row.schema, name: row.table_name })} (${formatBytes(Number(row.bytes))})`,
+        metrics: { bytes: Number(row.bytes) },
+        remediation: `REINDEX INDEX CONCURRENTLY ${name}, or drop it if it was a failed build that is no longer wanted`,
+      };
+    }),
+    ...unused.rows.map((row): HealthItem => {
+      const name = formatQualifiedName({ schema: row.schema, name: row.name });
+      return {
+        object: name,
+        status: "warn",
+        message: `Unused index ${name} on ${formatQualifiedName({ schema: row.schema, name: row.table_name })} (${formatBytes(Number(row.bytes))}), never scanned since statistics were reset`,
+        metrics: { bytes: Number(row.bytes) },
+        remediation: `DROP INDEX CONCURRENTLY ${name}, after checking replicas don't use it`,
+      };
+    }),
+  ];
+  const unusedBytes = unused.rows.reduce((total, row) => total + Number(row.bytes), 0);
+  return {
+    summary:
+      items.length > 0
+        ? `Invalid indexes: ${invalid.rows.length}; unused indexes: ${unused.rows.length} (${formatBytes(unusedBytes)})`
+        : `No invalid indexes and no unused indexes of ${formatBytes(thresholds.unusedIndexBytes)} or more`,
+    metrics: { invalidIndexes: invalid.rows.length, unusedIndexes: unused.rows.length, unusedIndexBytes: unusedBytes },
+    thresholds: { unusedIndexBytes: thresholds.unusedIndexBytes },
+    items,
+  };
+}
+
+// Connections to this database against max_connections
+async function checkConnections(client: pg.ClientBase, { thresholds }: CheckOptions): Promise<CheckOutcome> {
+  const result = await client.query(`
+    SELECT
+      count(*)::int AS total,
+      count(*) FILTER (WHERE state = 'active')::int AS active,
+      count(*) FILTER (WHERE state = 'idle')::int AS idle,
+      count(*) FILTER (WHERE state LIKE 'idle in transaction%')::int AS idle_in_transaction,
+      current_setting('max_connections')::int AS max_connections
+    FROM pg_stat_activity
+    WHERE datname = current_database()
+  `);
+  const row = result.rows[0];
+  const usage = row.total / row.max_connections;
+  const status: HealthStatus =
+    usage >= thresholds.connectionUsageCritical ? "critical" : usage >= thresholds.connectionUsageWarn ? "warn" : "ok";
+  return {
+    status,
+    summary: `Connections: ${row.total}/${row.max_connections} (${percent(usage)}); ${row.active} active, ${row.idle} idle, ${row.idle_in_transaction} idle in transaction`,
+    metrics: {
+      totalConnections: row.total,
+      maxConnections: row.max_connections,
+      usage: ratio(usage),
+      active: row.active,
+      idle: row.idle,
+      idleInTransaction: row.idle_in_transaction,
+    },
+    thresholds: { connectionUsageWarn: thresholds.connectionUsageWarn, connectionUsageCritical: thresholds.connectionUsageCritical },
+    remediation:
+      status === "ok"
+        ? []
+        : [
+            "Put a connection pooler such as PgBouncer in front of the database, or lower the pool sizes of its clients",
+            ...(row.idle_in_transaction > 0 ? ["Look for sessions left idle in transaction with lock_analysis"] : []),
+          ],
+  };
+}
+
+// Transaction ID wraparound and tables with many dead tuples
+async function checkVacuum(client: pg.ClientBase, { thresholds }: CheckOptions): Promise<CheckOutcome> {
+  const age = (await client.query("SELECT age(datfrozenxid)::bigint AS age FROM pg_database WHERE datname = current_database()")).rows[0].age;
+  const txidAge = Number(age);
+  const dead = await client.query(
+    `SELECT schemaname AS schema, relname AS name, n_dead_tup, n_live_tup, last_vacuum, last_autovacuum,
+            count(*) OVER () AS tables
+     FROM pg_stat_user_tables
+     WHERE n_dead_tup > $1
+     ORDER BY n_dead_tup DESC
+     LIMIT 5`,
+    [thresholds.deadTuples],
+  );
+
+  const ageStatus: HealthStatus =
+    txidAge > thresholds.transactionIdAgeCritical ? "critical" : txidAge > thresholds.transactionIdAgeWarn ? "warn" : "ok";
+  const items = dead.rows.map((row): HealthItem => {
+    const name = formatQualifiedName({ schema: row.schema, name: row.name });
+    return {
+      object: name,
+      status: "warn",
+      message: `${name}: ${Number(row.n_dead_tup).toLocaleString()} dead tuples, ${Number(row.n_live_tup).toLocaleString()} live`,
+      metrics: {
+        deadTuples: Number(row.n_dead_tup),
+        liveTuples: Number(row.n_live_tup),
+        lastVacuum: timestamp(row.last_vacuum),
+        lastAutovacuum: timestamp(row.last_autovacuum),
+      },
+      remediation: `VACUUM (ANALYZE) ${name}`,
+    };
+  });
+  const tables = dead.rows.length > 0 ? Number(dead.rows[0].tables) : 0;
+  const remediation: string[] = [];
+  if (ageStatus !== "ok") {
+    remediation.push(
+      "Run VACUUM (FREEZE) on the tables with the oldest relfrozenxid, and end long-running transactions, stale replication slots and prepared transactions that hold back freezing",
+    );
+  }
+  if (tables > 0) {
+    remediation.push("If autovacuum keeps falling behind, lower autovacuum_vacuum_scale_factor for the busiest tables");
+  }
+  return {
+    status: worst([ageStatus, ...items.map((item) => item.status)]),
+    summary: `Transaction ID age ${txidAge.toLocaleString()} (${(2 ** 31 - txidAge).toLocaleString()} remaining before wraparound); tables with more than ${thresholds.deadTuples.toLocaleString()} dead tuples: ${tables}`,
+    metrics: { transactionIdAge: txidAge, remainingTransactionIds: 2 ** 31 - txidAge, tablesWithDeadTuples: tables },
+    thresholds: {
+      transactionIdAgeWarn: thresholds.transactionIdAgeWarn,
+      transactionIdAgeCritical: thresholds.transactionIdAgeCritical,
+      deadTuples: thresholds.deadTuples,
+    },
+    items,
+    remediation,
+  };
+}
+
+// Sequences that have used up most of their range
+async function checkSequences(client: pg.ClientBase, { thresholds }: CheckOptions): Promise<CheckOutcome> {
+  const result = await client.query(
+    `SELECT schemaname AS schema, sequencename AS name, data_type::text, last_value, max_value,
+            (last_value::numeric / max_value::numeric)::float8 AS usage
+     FROM pg_sequences
+     WHERE last_value::numeric / max_value::numeric >= $1
+     ORDER BY usage DESC`,
+    [thresholds.sequenceUsageWarn],
+  );
+  const items = result.rows.map((row): HealthItem => {
+    const name = formatQualifiedName({ schema: row.schema, name: row.name });
+    return {
+      object: name,
+      status: row.usage >= thresholds.sequenceUsageCritical ? "critical" : "warn",
+      message: `${name} (${row.data_type}): ${percent(row.usage)} used, ${row.last_value} of ${row.max_value}`,
+      metrics: { lastValue: row.last_value, maxValue: row.max_value, usage: ratio(row.usage) },
+      remediation:
+        row.data_type === "bigint"
+          ? `Plan how ${name} can wrap or be replaced before it runs out`
+          : `ALTER SEQUENCE ${name} AS bigint, after changing the columns it fills to bigint`,
+    };
+  });
+  return {
+    status: worst(items.map((item) => item.status)),
+    summary:
+      items.length > 0
+        ? `Sequences past ${percent(thresholds.sequenceUsageWarn)} of their range: ${items.length}`
+        : "All sequences have adequate remaining capacity",
+    metrics: { sequencesNearLimit: items.length },
+    thresholds: { sequenceUsageWarn: thresholds.sequenceUsageWarn, sequenceUsageCritical: thresholds.sequenceUsageCritical },
+    items,
+  };
+}
+
+// Replicas streaming from this server and how far behind they are
+async function checkReplication(client: pg.ClientBase): Promise<CheckOutcome> {
+  const result = await client.query(`
+    SELECT application_name, client_addr::text, state,
+           pg_wal_lsn_diff(pg_current_wal_lsn(), sent_lsn)::float8 AS send_lag_bytes,
+           pg_wal_lsn_diff(sent_lsn, write_lsn)::float8 AS write_lag_bytes,
+           pg_wal_lsn_diff(write_lsn, flush_lsn)::float8 AS flush_lag_bytes
+    FROM pg_stat_replication
+  `);
+  const items = result.rows.map((row): HealthItem => ({
+    object: row.application_name || row.client_addr || "unknown",
+    status: row.state === "streaming" ? "ok" : "warn",
+    message: `${row.application_name || "Unknown"} (${row.client_addr}): ${row.state}${row.send_lag_bytes > 0 ? `, ${formatBytes(row.send_lag_bytes)} not yet sent` : ""}`,
+    metrics: {
+      state: row.state,
+      sendLagBytes: row.send_lag_bytes,
+      writeLagBytes: row.write_lag_bytes,
+      flushLagBytes: row.flush_lag_bytes,
+    },
+    remediation: row.state === "streaming" ? undefined : "Check the replica's logs; it is still catching up or has lost its connection",
+  }));
+  return {
+    status: worst(items.map((item) => item.status)),
+    summary:
+      items.length > 0
+        ? `Replication replicas: ${items.length}`
+        : "No replication replicas detected (standalone or replica server)",
+    metrics: { replicas: items.length },
+    thresholds: {},
+    items,
+  };
+}
+
+async function cacheHitRate(client: pg.ClientBase, view: string, hit: string, read: string): Promise<number | null> {
+  const result = await client.query(`SELECT (sum(${hit}) / nullif(sum(${hit} + ${read}), 0))::float8 AS rate FROM ${view}`);
+  return result.rows[0]?.rate ?? null;
+}
+
+// How often index and table blocks were found in shared buffers
+async function checkBuffers(client: pg.ClientBase, { thresholds }: CheckOptions): Promise<CheckOutcome> {
+  const rates = [
+    { label: "Index", rate: await cacheHitRate(client, "pg_statio_user_indexes", "idx_blks_hit", "idx_blks_read") },
+    { label: "Table", rate: await cacheHitRate(client, "pg_statio_user_tables", "heap_blks_hit", "heap_blks_read") },
+  ];
+  const threshold = `${thresholds.cacheHitRate * 100}%`;
+  const items = rates.map(({ label, rate }): HealthItem => {
+    if (rate === null) {
+      return { status: "ok", message: `No ${label.toLowerCase()} statistics available`, metrics: { cacheHitRate: null } };
+    }
+    const good = rate >= thresholds.cacheHitRate;
+    return {
+      status: good ? "ok" : "warn",
+      message: `${label} cache hit rate: ${(rate * 100).toFixed(2)}% (${good ? `Good - above ${threshold}` : `Poor - below ${threshold}`} threshold)`,
+      metrics: { cacheHitRate: ratio(rate) },
+    };
+  });
+  const status = worst(items.map((item) => item.status));
+  return {
+    status,
+    summary: status === "ok" ? `Cache hit rates at or above ${threshold}` : `Cache hit rates below ${threshold}`,
+    metrics: { indexCacheHitRate: items[0].metrics.cacheHitRate, tableCacheHitRate: items[1].metrics.cacheHitRate },
+    thresholds: { cacheHitRate: thresholds.cacheHitRate },
+    items,
+    remediation:
+      status === "ok"
+        ? []
+        : [
+            "Raise shared_buffers if the server has memory to spare",
+            "Find the queries reading the most blocks with top_queries (order_by io) and avoid large sequential scans with index_advisor",
+          ],
+  };
+}
+
+// CHECK and foreign key constraints added NOT VALID and never validated
+async function checkConstraints(client: pg.ClientBase): Promise<CheckOutcome> {
+  const result = await client.query(`
+    SELECT n.nspname AS schema, t.relname AS table_name, c.conname AS name, c.contype AS type
+    FROM pg_constraint c
+    JOIN pg_class t ON c.conrelid = t.oid
+    JOIN pg_namespace n ON t.relnamespace = n.oid
+    WHERE NOT c.convalidated AND c.contype IN ('c', 'f')
+  `);
+  const items = result.rows.map((row): HealthItem => {
+    const table = formatQualifiedName({ schema: row.schema, name: row.table_name });
+    return {
+      object: `${table}.${formatQualifiedName({ name: row.name })}`,
+      status: "warn",
+      message: `${row.type === "c" ? "CHECK" : "FOREIGN KEY"} constraint ${formatQualifiedName({ name: row.name })} on ${table}`,
+      metrics: {},
+      remediation: `ALTER TABLE ${table} VALIDATE CONSTRAINT ${formatQualifiedName({ name: row.name })}`,
+    };
+  });
+  return {
+    summary: items.length > 0 ? `Invalid constraints found: ${items.length}` : "All constraints are valid",
+    metrics: { invalidConstraints: items.length },
+    thresholds: {},
+    items,
+  };
+}
+
+// Tables and indexes much larger than their live rows need
+async function checkBloat(client: pg.ClientBase, { thresholds }: CheckOptions): Promise<CheckOutcome> {
+  const bloat = thresholds.bloat;
+  const report = await estimateBloat(client, bloat);
+  const wasted = report.relations.reduce((total, relation) => total + relation.wastedBytes, 0);
+  return {
+    summary:
+      report.relations.length > 0
+        ? `Bloated relations: ${report.relations.length}, wasting ${formatBytes(wasted)}`
+        : `No table over ${bloat.tablePercent}% or index over ${bloat.indexPercent}% bloat wasting at least ${formatBytes(bloat.minWastedBytes)}`,
+    note: report.note,
+    metrics: { method: report.method, bloatedRelations: report.relations.length, wastedBytes: wasted },
+    thresholds: { minWastedBytes: bloat.minWastedBytes, tablePercent: bloat.tablePercent, indexPercent: bloat.indexPercent },
+    items: report.relations.map((relation): HealthItem => ({
+      object: relation.name,
+      status: "warn",
+      message: `${relation.kind === "index" ? `index ${relation.name} on ${relation.table}` : `table ${relation.name}`}: ${formatBytes(relation.wastedBytes)} wasted of ${formatBytes(relation.bytes)} (${relation.percent}%)`,
+      metrics: { bytes: relation.bytes, wastedBytes: relation.wastedBytes, percent: relation.percent, method: relation.method },
+      remediation: relation.recommendation,
+    })),
+  };
+}
+
+const CHECKS: Record<HealthCheckType, (client: pg.ClientBase, options: CheckOptions) => Promise<CheckOutcome>> = {
+  index: checkIndexes,
+  connection: checkConnections,
+  vacuum: checkVacuum,
+  sequence: checkSequences,
+  replication: checkReplication,
+  buffer: checkBuffers,
+  constraint: checkConstraints,
+  bloat: checkBloat,
+};
+
+// Run health checks one after another. A check that fails is reported with
+// status error and doesn't stop the others.
+export async function checkHealth(
+  client: pg.ClientBase,
+  options: { databaseId: string; name: string; types: readonly HealthCheckType[]; thresholds: HealthThresholds },
+): Promise<HealthReport> {
+  const checks: HealthCheckResult[] = [];
+  for (const check of options.types) {
+    try {
+      const outcome = await CHECKS[check](client, options);
+      const items = outcome.items ?? [];
+      checks.push({
+        check,
+        status: outcome.status ?? worst(items.map((item) => item.status)),
+        summary: outcome.summary,
+        note: outcome.note,
+        metrics: outcome.metrics,
+        thresholds: outcome.thresholds,
+        items,
+        remediation: outcome.remediation ?? [],
+      });
+    } catch (error) {
+      checks.push({
+        check,
+        status: "error",
+        summary: `${check[0].toUpperCase()}${check.slice(1)} health check error: ${error}`,
+        metrics: {},
+        thresholds: {},
+        items: [],
+        remediation: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const ran = checks.map((check) => check.status).filter((status): status is HealthStatus => status !== "error");
+  return {
+    database: options.databaseId,
+    name: options.name,
+    generatedAt: new Date().toISOString(),
+    score: ran.length > 0 ? Math.round(ran.reduce((total, status) => total + SCORES[status], 0) / ran.length) : null,
+    status: ran.length > 0 ? worst(ran) : "error",
+    checks,
+  };
+}
+
+const STATUS_PREFIXES: Record<HealthStatus, string> = { ok: "✓ ", warn: "⚠ Warning: ", critical: "🚨 Critical: " };
+
+// The report as the text database_health_check has always returned
+export function renderHealthReport(report: HealthReport): string {
+  const lines = [
+    "=== PostgreSQL Database Health Report ===",
+    `Database: ${report.name} (${report.database})`,
+    `Generated at: ${report.generatedAt}`,
+    `Health score: ${report.score ?? "n/a"}/100 (${report.status})`,
+    "",
+  ];
+  for (const check of report.checks) {
+    lines.push(`--- ${check.check.toUpperCase()} HEALTH ---`);
+    lines.push(check.status === "error" ? check.summary : `${STATUS_PREFIXES[check.status]}${check.summary}`);
+    if (check.note) {
+      lines.push(check.note);
+    }
+    for (const item of check.items) {
+      lines.push(`  - ${item.status === "ok" ? "" : STATUS_PREFIXES[item.status]}${item.message}`);
+      if (item.remediation) {
+        lines.push(`    Recommendation: ${item.remediation}`);
+      }
+    }
+    for (const hint of check.remediation) {
+      lines.push(`Recommendation: ${hint}`);
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+const RATIO_SCHEMA = { type: "number", minimum: 0, maximum: 1 };
+const COUNT_SCHEMA = { type: "integer", minimum: 0 };
+
+// inputSchema of database_health_check's per-call threshold overrides
+export const HEALTH_THRESHOLDS_SCHEMA = {
+  type: "object",
+  description:
+    "Override the database's health thresholds for this call. Usage and hit rates are ratios from 0 to 1. Example: { \"connectionUsageWarn\": 0.6, \"bloat\": { \"tablePercent\": 50 } }",
+  properties: {
+    connectionUsageWarn: { ...RATIO_SCHEMA, description: "Connection usage that warns (default 0.8)" },
+    connectionUsageCritical: { ...RATIO_SCHEMA, description: "Connection usage that is critical (default 0.95)" },
+    transactionIdAgeWarn: { ...COUNT_SCHEMA, description: "Transaction ID age that warns (default 1000000000)" },
+    transactionIdAgeCritical: { ...COUNT_SCHEMA, description: "Transaction ID age that is critical (default 1500000000)" },
+    deadTuples: { ...COUNT_SCHEMA, description: "Dead tuples above which a table needs vacuuming (default 1000)" },
+    sequenceUsageWarn: { ...RATIO_SCHEMA, description: "Share of a sequence's range used that warns (default 0.8)" },
+    sequenceUsageCritical: { ...RATIO_SCHEMA, description: "Share of a sequence's range used that is critical (default 0.95)" },
+    unusedIndexBytes: { ...COUNT_SCHEMA, description: "Smallest never-scanned index reported, in bytes (default 1048576)" },
+    cacheHitRate: { ...RATIO_SCHEMA, description: "Cache hit rate below which the buffer check warns (default 0.95)" },
+    bloat: {
+      type: "object",
+      properties: {
+        minWastedBytes: { ...COUNT_SCHEMA, description: "Least wasted bytes a relation is reported for (default 10485760)" },
+        tablePercent: { type: "number", minimum: 0, maximum: 100, description: "Percent of a table's size wasted that is reported (default 30)" },
+        indexPercent: { type: "number", minimum: 0, maximum: 100, description: "Percent of an index's size wasted that is reported (default 40)" },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const STATUS_SCHEMA = { type: "string", enum: ["ok", "warn", "critical"] };
+const METRICS_SCHEMA = { type: "object", additionalProperties: { type: ["number", "string", "null"] } };
+
+// outputSchema of the health check tools, describing HealthReport
+export const HEALTH_REPORT_SCHEMA = {
+  type: "object",
+  properties: {
+    database: { type: "string" },
+    name: { type: "string" },
+    generatedAt: { type: "string", format: "date-time" },
+    score: { type: ["number", "null"], minimum: 0, maximum: 100 },
+    status: { type: "string", enum: ["ok", "warn", "critical", "error"] },
+    checks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          check: { type: "string", enum: [...HEALTH_CHECK_TYPES] },
+          status: { type: "string", enum: ["ok", "warn", "critical", "error"] },
+          summary: { type: "string" },
+          note: { type: "string" },
+          metrics: METRICS_SCHEMA,
+          thresholds: METRICS_SCHEMA,
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                object: { type: "string" },
+                status: STATUS_SCHEMA,
+                message: { type: "string" },
+                metrics: METRICS_SCHEMA,
+                remediation: { type: "string" },
+              },
+              required: ["status", "message", "metrics"],
+            },
+          },
+          remediation: { type: "array", items: { type: "string" } },
+          error: { type: "string" },
+        },
+        required: ["check", "status", "summary", "metrics", "thresholds", "items", "remediation"],
+      },
+    },
+  },
+  required: ["database", "name", "generatedAt", "score", "status", "checks"],
+};
@@ -0,0 +1,620 @@
+import pg from "pg";
+import { QualifiedName, ResolvedTable, SqlValidationError, formatQualifiedName } from "./sql.js";
+
+// Relation kinds that have columns worth describing
+export const DESCRIBABLE_KINDS = ["r", "p", "v", "m", "f"];
+
+const KIND_NAMES: Record<string, string> = {
+  r: "table",
+  p: "partitioned table",
+  v: "view",
+  m: "materialized view",
+  f: "foreign table",
+};
+
+// Referential actions from pg_constraint.confupdtype/confdeltype
+const REFERENTIAL_ACTIONS: Record<string, string> = {
+  a: "NO ACTION",
+  r: "RESTRICT",
+  c: "CASCADE",
+  n: "SET NULL",
+  d: "SET DEFAULT",
+};
+
+export interface ColumnDescription {
+  name: string;
+  position: number;
+  // Type as PostgreSQL prints it, including modifiers, e.g. "numeric(10,2)"
+  dataType: string;
+  nullable: boolean;
+  default: string | null;
+  // "ALWAYS" or "BY DEFAULT" for identity columns
+  identity: string | null;
+  // Expression of a generated column
+  generated: string | null;
+  comment: string | null;
+}
+
+export interface ForeignKeyDescription {
+  name: string;
+  columns: string[];
+  references: { schema: string; table: string; columns: string[] };
+  onUpdate: string;
+  onDelete: string;
+}
+
+// A foreign key of another table pointing at the described one
+export interface IncomingForeignKeyDescription {
+  name: string;
+  schema: string;
+  table: string;
+  columns: string[];
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface IndexDescription {
+  name: string;
+  definition: string;
+  method: string;
+  unique: boolean;
+  primary: boolean;
+  // False while an index built CONCURRENTLY is unfinished or after it failed
+  valid: boolean;
+  sizeBytes: number;
+}
+
+export interface TableDescription {
+  schema: string;
+  name: string;
+  kind: string;
+  comment: string | null;
+  // Query of a view or materialized view
+  definition: string | null;
+  // Planner estimate from the last VACUUM or ANALYZE; null if never analyzed
+  estimatedRows: number | null;
+  size: { totalBytes: number; tableBytes: number; indexBytes: number; total: string };
+  columns: ColumnDescription[];
+  primaryKey: { name: string; columns: string[] } | null;
+  foreignKeys: ForeignKeyDescription[];
+  referencedBy: IncomingForeignKeyDescription[];
+  uniqueConstraints: { name: string; columns: string[] }[];
+  checkConstraints: { name: string; definition: string }[];
+  exclusionConstraints: { name: string; definition: string }[];
+  indexes: IndexDescription[];
+}
+
+// Find a table, view or foreign table by its catalog name, as it appears in
+// resource URIs. Without a schema the name is looked up through search_path.
+export async function findRelation(client: pg.ClientBase, name: string, schema?: string): Promise<ResolvedTable> {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE c.oid = to_regclass($1)`,
+    [formatQualifiedName({ schema, name })],
+  );
+  const row = result.rows[0];
+  if (!row || !DESCRIBABLE_KINDS.includes(row.kind)) {
+    throw new SqlValidationError(`Relation "${schema ? `${schema}.${name}` : name}" does not exist`, "uri", "not_found");
+  }
+  return {
+    schema: row.schema,
+    name: row.name,
+    kind: row.kind,
+    sql: formatQualifiedName({ schema: row.schema, name: row.name }),
+  };
+}
+
+// Resolve the relations a statement names to their catalog schema and name,
+// looking unqualified names up through search_path the way the statement
+// will. Names that don't resolve are left out; the statement fails on them.
+export async function resolveRelations(
+  client: pg.ClientBase,
+  names: QualifiedName[],
+): Promise<{ schema: string; name: string }[]> {
+  if (names.length === 0) {
+    return [];
+  }
+  const result = await client.query(
+    `SELECT DISTINCT n.nspname AS schema, c.relname AS name
+     FROM unnest($1::text[]) AS r(name)
+     JOIN pg_class c ON c.oid = to_regclass(r.name)
+     JOIN pg_namespace n ON n.oid = c.relnamespace`,
+    [names.map(formatQualifiedName)],
+  );
+  return result.rows;
+}
+
+// SQL for the column names of a constraint's key, in key order
+function keyColumns(keys: string, relation: string): string {
+  return `ARRAY(
+    SELECT a.attname::text FROM unnest(${keys}) WITH ORDINALITY AS k(attnum, position)
+    JOIN pg_attribute a ON a.attrelid = ${relation} AND a.attnum = k.attnum
+    ORDER BY k.position)`;
+}
+
+// Describe a table, view or foreign table from the system catalogs: columns,
+// keys, constraints, indexes, comments and size
+export async function describeTable(client: pg.ClientBase, table: ResolvedTable): Promise<TableDescription> {
+  const relation = await client.query(
+    `SELECT c.oid, c.relkind,
+            obj_description(c.oid, 'pg_class') AS comment,
+            CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS definition,
+            CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::bigint END AS estimated_rows,
+            pg_total_relation_size(c.oid) AS total_bytes,
+            pg_relation_size(c.oid) AS table_bytes,
+            pg_indexes_size(c.oid) AS index_bytes,
+            pg_size_pretty(pg_total_relation_size(c.oid)) AS total_size
+     FROM pg_class c
+     WHERE c.oid = to_regclass($1)`,
+    [table.sql],
+  );
+  const info = relation.rows[0];
+  const oid = info.oid;
+
+  const columns = await client.query(
+    `SELECT a.attname AS name, a.attnum AS position,
+            format_type(a.atttypid, a.atttypmod) AS data_type,
+            NOT a.attnotnull AS nullable,
+            CASE WHEN a.attgenerated = '' THEN pg_get_expr(d.adbin, d.adrelid) END AS default,
+            CASE a.attidentity WHEN 'a' THEN 'ALWAYS' WHEN 'd' THEN 'BY DEFAULT' END AS identity,
+            CASE WHEN a.attgenerated <> '' THEN pg_get_expr(d.adbin, d.adrelid) END AS generated,
+            col_description(a.attrelid, a.attnum) AS comment
+     FROM pg_attribute a
+     LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+     WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY a.attnum`,
+    [oid],
+  );
+  const constraints = await client.query(
+    `SELECT con.conname AS name, con.contype AS type,
+            pg_get_constraintdef(con.oid) AS definition,
+            ${keyColumns("con.conkey", "con.conrelid")} AS columns,
+            fn.nspname AS foreign_schema, fc.relname AS foreign_table,
+            ${keyColumns("con.confkey", "con.confrelid")} AS foreign_columns,
+            con.confupdtype AS on_update, con.confdeltype AS on_delete
+     FROM pg_constraint con
+     LEFT JOIN pg_class fc ON fc.oid = con.confrelid
+     LEFT JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+     WHERE con.conrelid = $1
+     ORDER BY con.conname`,
+    [oid],
+  );
+  const incoming = await client.query(
+    `SELECT con.conname AS name, n.nspname AS schema, c.relname AS table,
+            ${keyColumns("con.conkey", "con.conrelid")} AS columns,
+            ${keyColumns("con.confkey", "con.confrelid")} AS referenced_columns,
+            con.confupdtype AS on_update, con.confdeltype AS on_delete
+     FROM pg_constraint con
+     JOIN pg_class c ON c.oid = con.conrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE con.confrelid = $1 AND con.contype = 'f'
+     ORDER BY n.nspname, c.relname, con.conname`,
+    [oid],
+  );
+  const indexes = await client.query(
+    `SELECT ic.relname AS name, pg_get_indexdef(i.indexrelid) AS definition, am.amname AS method,
+            i.indisunique AS unique, i.indisprimary AS primary, i.indisvalid AS valid,
+            pg_relation_size(i.indexrelid) AS size_bytes
+     FROM pg_index i
+     JOIN pg_class ic ON ic.oid = i.indexrelid
+     JOIN pg_am am ON am.oid = ic.relam
+     WHERE i.indrelid = $1
+     ORDER BY ic.relname`,
+    [oid],
+  );
+
+  const byType = (type: string) => constraints.rows.filter((row) => row.type === type);
+  const primaryKey = byType("p")[0];
+
+  return {
+    schema: table.schema,
+    name: table.name,
+    kind: KIND_NAMES[info.relkind] ?? info.relkind,
+    comment: info.comment,
+    definition: info.definition,
+    estimatedRows: info.estimated_rows === null ? null : Number(info.estimated_rows),
+    size: {
+      totalBytes: Number(info.total_bytes),
+      tableBytes: Number(info.table_bytes),
+      indexBytes: Number(info.index_bytes),
+      total: info.total_size,
+    },
+    columns: columns.rows.map((row) => ({
+      name: row.name,
+      position: row.position,
+      dataType: row.data_type,
+      nullable: row.nullable,
+      default: row.default,
+      identity: row.identity,
+      generated: row.generated,
+      comment: row.comment,
+    })),
+    primaryKey: primaryKey ? { name: primaryKey.name, columns: primaryKey.columns } : null,
+    foreignKeys: byType("f").map((row) => ({
+      name: row.name,
+      columns: row.columns,
+      references: { schema: row.foreign_schema, table: row.foreign_table, columns: row.foreign_columns },
+      onUpdate: REFERENTIAL_ACTIONS[row.on_update],
+      onDelete: REFERENTIAL_ACTIONS[row.on_delete],
+    })),
+    referencedBy: incoming.rows.map((row) => ({
+      name: row.name,
+      schema: row.schema,
+      table: row.table,
+      columns: row.columns,
+      referencedColumns: row.referenced_columns,
+      onUpdate: REFERENTIAL_ACTIONS[row.on_update],
+      onDelete: REFERENTIAL_ACTIONS[row.on_delete],
+    })),
+    uniqueConstraints: byType("u").map((row) => ({ name: row.name, columns: row.columns })),
+    checkConstraints: byType("c").map((row) => ({ name: row.name, definition: row.definition })),
+    exclusionConstraints: byType("x").map((row) => ({ name: row.name, definition: row.definition })),
+    indexes: indexes.rows.map((row) => ({
+      name: row.name,
+      definition: row.definition,
+      method: row.method,
+      unique: row.unique,
+      primary: row.primary,
+      valid: row.valid,
+      sizeBytes: Number(row.size_bytes),
+    })),
+  };
+}
+
+// The tables of a database with just enough detail to draw an
+// entity-relationship diagram: columns, keys and the foreign keys between them
+export interface SchemaModel {
+  tables: ModelTable[];
+  relationships: ModelRelationship[];
+}
+
+export interface ModelTable {
+  schema: string;
+  name: string;
+  comment: string | null;
+  estimatedRows: number | null;
+  columns: { name: string; dataType: string; nullable: boolean; comment: string | null }[];
+  primaryKey: string[];
+  uniqueKeys: string[][];
+}
+
+// A foreign key from one modelled table to another
+export interface ModelRelationship {
+  name: string;
+  from: { schema: string; table: string; columns: string[] };
+  to: { schema: string; table: string; columns: string[] };
+  onDelete: string;
+}
+
+// Relation kinds drawn as tables in a schema model
+const MODEL_KINDS = ["r", "p", "f"];
+
+// Load the tables of the given schemas, or of every schema that isn't a
+// system schema. Partitions are left out in favour of their parent, and
+// foreign keys only appear when both ends were loaded.
+export async function loadSchemaModel(client: pg.ClientBase, schemas?: string[]): Promise<SchemaModel> {
+  const tables = await client.query(
+    `SELECT c.oid, n.nspname AS schema, c.relname AS name,
+            obj_description(c.oid, 'pg_class') AS comment,
+            CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::bigint END AS estimated_rows
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE c.relkind = ANY($1) AND NOT c.relispartition
+       AND n.nspname !~ '^pg_' AND n.nspname <> 'information_schema'
+       AND ($2::text[] IS NULL OR n.nspname = ANY($2))
+       AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+     ORDER BY n.nspname COLLATE "C", c.relname COLLATE "C"`,
+    [MODEL_KINDS, schemas ?? null],
+  );
+  const oids = tables.rows.map((row) => row.oid);
+  const columns = await client.query(
+    `SELECT a.attrelid AS oid, a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS data_type,
+            NOT a.attnotnull AS nullable,
+            col_description(a.attrelid, a.attnum) AS comment
+     FROM pg_attribute a
+     WHERE a.attrelid = ANY($1) AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY a.attrelid, a.attnum`,
+    [oids],
+  );
+  const constraints = await client.query(
+    `SELECT con.conname AS name, con.contype AS type, con.conrelid AS oid, con.confrelid AS foreign_oid,
+            ${keyColumns("con.conkey", "con.conrelid")} AS columns,
+            ${keyColumns("con.confkey", "con.confrelid")} AS foreign_columns,
+            con.confdeltype AS on_delete
+     FROM pg_constraint con
+     WHERE con.conrelid = ANY($1) AND con.contype IN ('p', 'u', 'f')
+     ORDER BY con.conname`,
+    [oids],
+  );
+
+  const byOid = new Map<number, ModelTable>();
+  for (const row of tables.rows) {
+    byOid.set(row.oid, {
+      schema: row.schema,
+      name: row.name,
+      comment: row.comment,
+      estimatedRows: row.estimated_rows === null ? null : Number(row.estimated_rows),
+      columns: [],
+      primaryKey: [],
+      uniqueKeys: [],
+    });
+  }
+  for (const row of columns.rows) {
+    byOid.get(row.oid)!.columns.push({ name: row.name, dataType: row.data_type, nullable: row.nullable, comment: row.comment });
+  }
+
+  const relationships: ModelRelationship[] = [];
+  for (const row of constraints.rows) {
+    const table = byOid.get(row.oid)!;
+    if (row.type === "p") {
+      table.primaryKey = row.columns;
+    } else if (row.type === "u") {
+      table.uniqueKeys.push(row.columns);
+    } else {
+      const target = byOid.get(row.foreign_oid);
+      if (target) {
+        relationships.push({
+          name: row.name,
+          from: { schema: table.schema, table: table.name, columns: row.columns },
+          to: { schema: target.schema, table: target.name, columns: row.foreign_columns },
+          onDelete: REFERENTIAL_ACTIONS[row.on_delete],
+        });
+      }
+    }
+  }
+  return { tables: Array.from(byOid.values()), relationships };
+}
+
+// Schema an extension is installed in, already quoted for use in SQL, or
+// null when it isn't installed in the database
+export async function extensionSchema(client: pg.ClientBase, name: string): Promise<string | null> {
+  const result = await client.query(
+    "SELECT extnamespace::regnamespace::text AS schema FROM pg_extension WHERE extname = $1",
+    [name],
+  );
+  return result.rows[0]?.schema ?? null;
+}
+
+// server_version_num, e.g. 160002 for PostgreSQL 16.2
+export async function serverVersion(client: pg.ClientBase): Promise<number> {
+  const result = await client.query("SELECT current_setting('server_version_num')::int AS version");
+  return result.rows[0].version;
+}
+
+// Kinds of object listed as resources, named by the last segment of their URI
+export type CatalogResource = "schema" | "function" | "type";
+
+export interface CatalogObject {
+  resource: CatalogResource;
+  schema: string;
+  name: string;
+  // pg_class.relkind, pg_proc.prokind or pg_type.typtype
+  kind: string;
+  comment: string | null;
+}
+
+// Position in the catalog listing; objects are ordered by schema, name and resource
+export interface CatalogPosition {
+  schema: string;
+  name: string;
+  resource: CatalogResource;
+}
+
+// User-defined relations, functions and types, skipping system schemas,
+// partitions (their parent is listed) and objects that belong to extensions.
+// Overloaded functions are listed once. The fingerprint combines the xmin of
+// every catalog row describing the object, so it changes whenever DDL or
+// COMMENT touches the object.
+const CATALOG_OBJECTS = `
+  WITH namespaces AS (
+    SELECT oid, nspname::text AS schema FROM pg_namespace
+    WHERE nspname !~ '^pg_' AND nspname <> 'information_schema'
+  ),
+  objects AS (
+    SELECT 'schema' AS resource, n.schema, c.relname::text AS name, c.relkind::text AS kind,
+           obj_description(c.oid, 'pg_class') AS comment,
+           concat_ws('/', c.xmin,
+             (SELECT string_agg(a.xmin::text, ',' ORDER BY a.attnum) FROM pg_attribute a WHERE a.attrelid = c.oid),
+             (SELECT string_agg(co.xmin::text, ',' ORDER BY co.oid) FROM pg_constraint co WHERE c.oid IN (co.conrelid, co.confrelid)),
+             (SELECT string_agg(i.indexrelid::text, ',' ORDER BY i.indexrelid) FROM pg_index i WHERE i.indrelid = c.oid),
+             (SELECT string_agg(d.xmin::text, ',' ORDER BY d.objsubid) FROM pg_description d
+              WHERE d.classoid = 'pg_class'::regclass AND d.objoid = c.oid)) AS fingerprint
+    FROM pg_class c
+    JOIN namespaces n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f') AND NOT c.relispartition
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype = 'e')
+    UNION ALL
+    SELECT 'function', n.schema, p.proname::text, min(p.prokind::text), NULL,
+           string_agg(concat_ws('/', p.xmin,
+             (SELECT d.xmin FROM pg_description d WHERE d.classoid = 'pg_proc'::regclass AND d.objoid = p.oid)), ',' ORDER BY p.oid)
+    FROM pg_proc p
+    JOIN namespaces n ON n.oid = p.pronamespace
+    WHERE NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+    GROUP BY n.schema, p.proname
+    UNION ALL
+    SELECT 'type', n.schema, t.typname::text, t.typtype::text, obj_description(t.oid, 'pg_type'),
+           concat_ws('/', t.xmin,
+             (SELECT string_agg(e.xmin::text, ',' ORDER BY e.oid) FROM pg_enum e WHERE e.enumtypid = t.oid),
+             (SELECT string_agg(a.xmin::text, ',' ORDER BY a.attnum) FROM pg_attribute a WHERE a.attrelid = t.typrelid),
+             (SELECT string_agg(co.xmin::text, ',' ORDER BY co.oid) FROM pg_constraint co WHERE co.contypid = t.oid),
+             (SELECT d.xmin FROM pg_description d WHERE d.classoid = 'pg_type'::regclass AND d.objoid = t.oid))
+    FROM pg_type t
+    JOIN namespaces n ON n.oid = t.typnamespace
+    WHERE (t.typtype IN ('e', 'd', 'r') OR (t.typtype = 'c' AND (SELECT relkind FROM pg_class WHERE oid = t.typrelid) = 'c'))
+      AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e')
+  )`;
+
+const CATALOG_OBJECTS_SQL = `${CATALOG_OBJECTS}
+  SELECT resource, schema, name, kind, comment FROM objects
+  WHERE ($1::text IS NULL OR (schema COLLATE "C", name COLLATE "C", resource COLLATE "C") > ($1, $2, $3))
+  ORDER BY schema COLLATE "C", name COLLATE "C", resource COLLATE "C"
+  LIMIT $4`;
+
+const CATALOG_SNAPSHOT_SQL = `${CATALOG_OBJECTS}
+  SELECT resource, schema, name, kind, comment, md5(fingerprint) AS fingerprint FROM objects`;
+
+// Human-readable kind of a listed object, e.g. "materialized view" or "enum"
+export function catalogKindName(object: CatalogObject): string {
+  const names = object.resource === "schema" ? KIND_NAMES : object.resource === "function" ? FUNCTION_KINDS : TYPE_KINDS;
+  return names[object.kind] ?? object.kind;
+}
+
+// One page of the objects that follow a position in the catalog listing
+export async function listCatalogObjects(
+  client: pg.ClientBase,
+  after: CatalogPosition | undefined,
+  limit: number,
+): Promise<CatalogObject[]> {
+  const result = await client.query(CATALOG_OBJECTS_SQL, [after?.schema ?? null, after?.name ?? null, after?.resource ?? null, limit]);
+  return result.rows;
+}
+
+export interface CatalogSnapshotEntry extends CatalogObject {
+  fingerprint: string;
+}
+
+// Every listed object with a fingerprint of its definition, for spotting schema changes
+export async function snapshotCatalog(client: pg.ClientBase): Promise<CatalogSnapshotEntry[]> {
+  const result = await client.query(CATALOG_SNAPSHOT_SQL);
+  return result.rows;
+}
+
+const FUNCTION_KINDS: Record<string, string> = {
+  f: "function",
+  p: "procedure",
+  a: "aggregate",
+  w: "window function",
+};
+
+export interface FunctionDescription {
+  schema: string;
+  name: string;
+  kind: string;
+  // Argument list with names, modes and defaults, e.g. "user_id integer, active boolean DEFAULT true"
+  arguments: string;
+  // Result type, e.g. "TABLE(id integer, name text)"; null for procedures
+  returns: string | null;
+  language: string;
+  volatility: string;
+  strict: boolean;
+  securityDefiner: boolean;
+  comment: string | null;
+  // CREATE statement; null for aggregates
+  definition: string | null;
+}
+
+// Describe every overload of a function or procedure
+export async function describeFunctions(client: pg.ClientBase, schema: string, name: string): Promise<FunctionDescription[]> {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, p.proname AS name, p.prokind AS kind,
+            pg_get_function_arguments(p.oid) AS arguments,
+            pg_get_function_result(p.oid) AS returns,
+            l.lanname AS language,
+            CASE p.provolatile WHEN 'i' THEN 'IMMUTABLE' WHEN 's' THEN 'STABLE' ELSE 'VOLATILE' END AS volatility,
+            p.proisstrict AS strict, p.prosecdef AS security_definer,
+            obj_description(p.oid, 'pg_proc') AS comment,
+            CASE WHEN p.prokind <> 'a' THEN pg_get_functiondef(p.oid) END AS definition
+     FROM pg_proc p
+     JOIN pg_namespace n ON n.oid = p.pronamespace
+     JOIN pg_language l ON l.oid = p.prolang
+     WHERE n.nspname = $1 AND p.proname = $2
+     ORDER BY pg_get_function_identity_arguments(p.oid)`,
+    [schema, name],
+  );
+  if (result.rows.length === 0) {
+    throw new SqlValidationError(`Function "${schema}.${name}" does not exist`, "uri", "not_found");
+  }
+  return result.rows.map((row) => ({
+    schema: row.schema,
+    name: row.name,
+    kind: FUNCTION_KINDS[row.kind] ?? row.kind,
+    arguments: row.arguments,
+    returns: row.returns,
+    language: row.language,
+    volatility: row.volatility,
+    strict: row.strict,
+    securityDefiner: row.security_definer,
+    comment: row.comment,
+    definition: row.definition,
+  }));
+}
+
+const TYPE_KINDS: Record<string, string> = {
+  e: "enum",
+  c: "composite",
+  d: "domain",
+  r: "range",
+};
+
+export interface TypeDescription {
+  schema: string;
+  name: string;
+  kind: string;
+  comment: string | null;
+  // Enum labels in sort order
+  values?: string[];
+  // Fields of a composite type
+  attributes?: { name: string; dataType: string }[];
+  // Underlying type of a domain, with its NOT NULL, default and CHECK constraints
+  baseType?: string;
+  notNull?: boolean;
+  default?: string | null;
+  constraints?: { name: string; definition: string }[];
+  // Element type of a range
+  subtype?: string;
+}
+
+// Describe a user-defined enum, composite, domain or range type
+export async function describeType(client: pg.ClientBase, schema: string, name: string): Promise<TypeDescription> {
+  const result = await client.query(
+    `SELECT t.oid, t.typtype AS kind, t.typrelid, obj_description(t.oid, 'pg_type') AS comment,
+            format_type(t.typbasetype, t.typtypmod) AS base_type, t.typnotnull AS not_null, t.typdefault AS default,
+            (SELECT format_type(r.rngsubtype, NULL) FROM pg_range r WHERE r.rngtypid = t.oid) AS subtype
+     FROM pg_type t
+     JOIN pg_namespace n ON n.oid = t.typnamespace
+     WHERE n.nspname = $1 AND t.typname = $2 AND t.typtype IN ('e', 'c', 'd', 'r')`,
+    [schema, name],
+  );
+  const row = result.rows[0];
+  if (!row) {
+    throw new SqlValidationError(`Type "${schema}.${name}" does not exist`, "uri", "not_found");
+  }
+
+  const description: TypeDescription = { schema, name, kind: TYPE_KINDS[row.kind], comment: row.comment };
+  if (row.kind === "e") {
+    const labels = await client.query(
+      "SELECT enumlabel FROM pg_enum WHERE enumtypid = $1 ORDER BY enumsortorder",
+      [row.oid],
+    );
+    description.values = labels.rows.map((label) => label.enumlabel);
+  } else if (row.kind === "c") {
+    const attributes = await client.query(
+      `SELECT attname AS name, format_type(atttypid, atttypmod) AS data_type
+       FROM pg_attribute
+       WHERE attrelid = $1 AND attnum > 0 AND NOT attisdropped
+       ORDER BY attnum`,
+      [row.typrelid],
+    );
+    description.attributes = attributes.rows.map((attribute) => ({ name: attribute.name, dataType: attribute.data_type }));
+  } else if (row.kind === "d") {
+    const constraints = await client.query(
+      `SELECT conname AS name, pg_get_constraintdef(oid) AS definition
+       FROM pg_constraint
+       -- PostgreSQL 17 also records NOT NULL as a constraint; notNull covers it
+       WHERE contypid = $1 AND contype <> 'n'
+       ORDER BY conname`,
+      [row.oid],
+    );
+    description.baseType = row.base_type;
+    description.notNull = row.not_null;
+    description.default = row.default;
+    description.constraints = constraints.rows;
+  } else {
+    description.subtype = row.subtype;
+  }
+  return description;
+}
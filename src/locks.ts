@@ -0,0 +1,187 @@
+import pg from "pg";
+
+// Functions lock_analysis may call on another session's backend
+export const BACKEND_SIGNALS = {
+  // Cancels the session's current query; its transaction is aborted but the connection stays open
+  cancel_backend: "pg_cancel_backend",
+  // Closes the connection, rolling back its open transaction
+  terminate_backend: "pg_terminate_backend",
+};
+
+export type BackendSignal = keyof typeof BACKEND_SIGNALS;
+
+export interface WaitedLock {
+  lockType: string;
+  mode: string;
+  relation: string | null;
+}
+
+// A backend as pg_stat_activity shows it
+export interface SessionInfo {
+  pid: number;
+  // Blockers can be connected to another database, e.g. holding a lock on a shared catalog
+  database: string | null;
+  user: string | null;
+  application: string | null;
+  clientAddress: string | null;
+  backendType: string | null;
+  state: string | null;
+  waitEventType: string | null;
+  waitEvent: string | null;
+  query: string | null;
+  queryStart: Date | null;
+  transactionStart: Date | null;
+  queryDurationSeconds: number | null;
+  transactionDurationSeconds: number | null;
+  // Time since the state last changed, e.g. how long it has been idle in transaction
+  stateDurationSeconds: number | null;
+  // Sessions holding or queued ahead for a lock this one waits for
+  blockedBy: number[];
+  waitingFor: WaitedLock[];
+}
+
+// A session and the sessions waiting on it, directly or further down the chain
+export interface BlockingNode extends SessionInfo {
+  blockedSessions: number;
+  blocks: BlockingNode[];
+}
+
+export interface LockReport {
+  minDurationSeconds: number;
+  // One tree per session that blocks others without waiting itself
+  blockingTrees: BlockingNode[];
+  blockedSessions: number;
+  // Active sessions whose query or transaction has run at least minDurationSeconds
+  longRunning: SessionInfo[];
+  // Sessions that have sat idle inside an open transaction at least minDurationSeconds
+  idleInTransaction: SessionInfo[];
+}
+
+// Every backend connected to the current database except this one, plus
+// backends elsewhere that block them
+const SESSIONS_SQL = `
+  WITH activity AS (
+    SELECT a.*, pg_blocking_pids(a.pid) AS blocked_by
+    FROM pg_stat_activity a
+    WHERE a.datname = current_database() AND a.pid <> pg_backend_pid()
+  )
+  SELECT s.pid, s.datname AS database, s.usename AS user, s.application_name AS application, s.client_addr::text AS client_address,
+         s.backend_type, s.state, s.wait_event_type, s.wait_event, s.query, s.query_start, s.xact_start,
+         extract(epoch FROM now() - s.query_start)::float8 AS query_seconds,
+         extract(epoch FROM now() - s.xact_start)::float8 AS transaction_seconds,
+         extract(epoch FROM now() - s.state_change)::float8 AS state_seconds,
+         coalesce(activity.blocked_by, pg_blocking_pids(s.pid)) AS blocked_by,
+         (SELECT coalesce(json_agg(json_build_object(
+                   'lockType', l.locktype, 'mode', l.mode, 'relation', l.relation::regclass::text)), '[]')
+          FROM pg_locks l WHERE l.pid = s.pid AND NOT l.granted) AS waiting_for
+  FROM pg_stat_activity s
+  LEFT JOIN activity ON activity.pid = s.pid
+  WHERE activity.pid IS NOT NULL
+     OR s.pid IN (SELECT unnest(blocked_by) FROM activity)`;
+
+function seconds(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 10) / 10;
+}
+
+function sessionInfo(row: any): SessionInfo {
+  return {
+    pid: row.pid,
+    database: row.database,
+    user: row.user,
+    application: row.application || null,
+    clientAddress: row.client_address,
+    backendType: row.backend_type,
+    state: row.state,
+    waitEventType: row.wait_event_type,
+    waitEvent: row.wait_event,
+    query: row.query || null,
+    queryStart: row.query_start,
+    transactionStart: row.xact_start,
+    queryDurationSeconds: seconds(row.query_seconds),
+    transactionDurationSeconds: seconds(row.transaction_seconds),
+    stateDurationSeconds: seconds(row.state_seconds),
+    blockedBy: row.blocked_by ?? [],
+    waitingFor: row.waiting_for,
+  };
+}
+
+// Another backend connected to the current database, or undefined
+export async function findSession(client: pg.ClientBase, pid: number): Promise<SessionInfo | undefined> {
+  const result = await client.query(
+    `SELECT * FROM (${SESSIONS_SQL}) sessions WHERE pid = $1 AND database = current_database()`,
+    [pid],
+  );
+  return result.rows.length > 0 ? sessionInfo(result.rows[0]) : undefined;
+}
+
+// Build blocking trees from pg_blocking_pids() and list sessions that have
+// been running, or idle inside a transaction, for a long time
+export async function analyzeLocks(client: pg.ClientBase, options: { minDurationSeconds: number }): Promise<LockReport> {
+  const sessions = (await client.query(SESSIONS_SQL)).rows.map(sessionInfo);
+  const byPid = new Map(sessions.map((session) => [session.pid, session]));
+
+  const blocked = new Map<number, number[]>();
+  for (const session of sessions) {
+    for (const blocker of session.blockedBy) {
+      blocked.set(blocker, [...(blocked.get(blocker) ?? []), session.pid]);
+    }
+  }
+
+  const build = (pid: number, path: Set<number>): BlockingNode | undefined => {
+    const session = byPid.get(pid);
+    if (!session) {
+      return undefined;
+    }
+    // Deadlocks make cycles until the deadlock detector breaks them
+    const children = (blocked.get(pid) ?? [])
+      .filter((child) => !path.has(child))
+      .map((child) => build(child, new Set([...path, child])))
+      .filter((node): node is BlockingNode => node !== undefined);
+    return {
+      ...session,
+      blockedSessions: children.reduce((total, child) => total + 1 + child.blockedSessions, 0),
+      blocks: children,
+    };
+  };
+  // Roots block others but don't wait themselves. Sessions waiting on each
+  // other in a cycle (a deadlock) have no such root, so one of them becomes it.
+  const blockers = Array.from(blocked.keys());
+  const roots = blockers.filter((pid) => (byPid.get(pid)?.blockedBy.length ?? 0) === 0);
+  const blockingTrees: BlockingNode[] = [];
+  const inTree = new Set<number>();
+  const collect = (node: BlockingNode) => {
+    inTree.add(node.pid);
+    node.blocks.forEach(collect);
+  };
+  for (const pid of [...roots, ...blockers]) {
+    const tree = inTree.has(pid) ? undefined : build(pid, new Set([pid]));
+    if (tree) {
+      collect(tree);
+      blockingTrees.push(tree);
+    }
+  }
+  blockingTrees.sort((a, b) => b.blockedSessions - a.blockedSessions);
+
+  const atLeast = (value: number | null) => value !== null && value >= options.minDurationSeconds;
+  const longRunning = sessions
+    .filter((session) => session.state === "active" && (atLeast(session.queryDurationSeconds) || atLeast(session.transactionDurationSeconds)))
+    .sort((a, b) => (b.transactionDurationSeconds ?? b.queryDurationSeconds ?? 0) - (a.transactionDurationSeconds ?? a.queryDurationSeconds ?? 0));
+  const idleInTransaction = sessions
+    .filter((session) => session.state?.startsWith("idle in transaction") && atLeast(session.stateDurationSeconds))
+    .sort((a, b) => (b.stateDurationSeconds ?? 0) - (a.stateDurationSeconds ?? 0));
+
+  return {
+    minDurationSeconds: options.minDurationSeconds,
+    blockingTrees,
+    blockedSessions: sessions.filter((session) => session.blockedBy.length > 0).length,
+    longRunning,
+    idleInTransaction,
+  };
+}
+
+// Cancel the current query of a backend, or terminate it. Returns whether
+// PostgreSQL could deliver the signal.
+export async function signalBackend(client: pg.ClientBase, signal: BackendSignal, pid: number): Promise<boolean> {
+  const result = await client.query(`SELECT ${BACKEND_SIGNALS[signal]}($1) AS signalled`, [pid]);
+  return result.rows[0].signalled;
+}
@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ParameterType, coerceParameters } from "./params.js";
+import { SqlValidationError } from "./sql.js";
+
+const TIMESTAMP: ParameterType = { name: "timestamptz", category: "D" };
+
+describe("coerceParameters", () => {
+  it("takes numbers for timestamps as epoch milliseconds", () => {
+    assert.deepEqual(coerceParameters([0, "2024-01-01"], [TIMESTAMP, TIMESTAMP]), ["1970-01-01T00:00:00.000Z", "2024-01-01"]);
+  });
+
+  it("reports numbers outside the timestamp range as type mismatches", () => {
+    for (const value of [1e20, -1e20, NaN, Infinity]) {
+      assert.throws(
+        () => coerceParameters([value], [TIMESTAMP]),
+        (error: unknown) => error instanceof SqlValidationError && error.code === "type_mismatch" && error.field === "params[0]",
+      );
+    }
+  });
+});
@@ -0,0 +1,351 @@
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { ColumnInfo, SqlValidationError, quoteIdentifier } from "./sql.js";
+import { transactionScope } from "./transactions.js";
+
+export interface BoundStatement {
+  sql: string;
+  values: unknown[];
+}
+
+export interface ParameterType {
+  name: string;
+  // pg_type.typcategory, e.g. N (numeric), B (boolean), D (date/time), A (array)
+  category: string;
+  // Element type name and category for array types
+  elementName?: string;
+  elementCategory?: string;
+}
+
+const NAMED_PARAMETER = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+// Find where a dollar-quoted string starting at `start` ends, or -1 if it isn't one
+function dollarQuoteEnd(sql: string, start: number): number {
+  const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(start));
+  if (!tag) {
+    return -1;
+  }
+  const end = sql.indexOf(tag[0], start + tag[0].length);
+  return end === -1 ? sql.length : end + tag[0].length;
+}
+
+// Rewrite :name placeholders to $n, skipping string literals, quoted
+// identifiers, comments and :: casts. Repeated names share one parameter.
+function rewriteNamedParameters(sql: string, named: Record<string, unknown>): BoundStatement {
+  const positions = new Map<string, number>();
+  const values: unknown[] = [];
+  let output = "";
+  let i = 0;
+
+  const copyUntil = (end: number) => {
+    output += sql.slice(i, end);
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (ch === "'" || ch === '"') {
+      // Doubled quotes escape themselves; E'' strings may also use backslashes
+      const escapes = ch === "'" && i > 0 && /[eE]/.test(sql[i - 1]);
+      let j = i + 1;
+      while (j < sql.length) {
+        if (escapes && sql[j] === "\\") {
+          j += 2;
+        } else if (sql[j] === ch && sql[j + 1] === ch) {
+          j += 2;
+        } else if (sql[j] === ch) {
+          j++;
+          break;
+        } else {
+          j++;
+        }
+      }
+      copyUntil(j);
+    } else if (ch === "-" && next === "-") {
+      const end = sql.indexOf("\n", i);
+      copyUntil(end === -1 ? sql.length : end);
+    } else if (ch === "/" && next === "*") {
+      let depth = 0;
+      let j = i;
+      while (j < sql.length) {
+        if (sql[j] === "/" && sql[j + 1] === "*") {
+          depth++;
+          j += 2;
+        } else if (sql[j] === "*" && sql[j + 1] === "/") {
+          depth--;
+          j += 2;
+          if (depth === 0) {
+            break;
+          }
+        } else {
+          j++;
+        }
+      }
+      copyUntil(j);
+    } else if (ch === "$" && dollarQuoteEnd(sql, i) !== -1) {
+      copyUntil(dollarQuoteEnd(sql, i));
+    } else if (ch === ":" && next === ":") {
+      copyUntil(i + 2);
+    } else if (ch === ":" && NAMED_PARAMETER.test(sql.slice(i + 1))) {
+      const name = NAMED_PARAMETER.exec(sql.slice(i + 1))![0];
+      if (!Object.prototype.hasOwnProperty.call(named, name)) {
+        throw new SqlValidationError(`No value given for named parameter :${name}`, `named_params.${name}`);
+      }
+      if (!positions.has(name)) {
+        values.push(named[name]);
+        positions.set(name, values.length);
+      }
+      output += `$${positions.get(name)}`;
+      i += name.length + 1;
+    } else {
+      copyUntil(i + 1);
+    }
+  }
+
+  const unused = Object.keys(named).filter((name) => !positions.has(name));
+  if (unused.length > 0) {
+    throw new SqlValidationError(
+      `Named parameters not used in the statement: ${unused.join(", ")}`,
+      "named_params",
+    );
+  }
+
+  return { sql: output, values };
+}
+
+// Combine the query tool's sql with either positional ($1, $2, ...) or named
+// (:name) parameters into SQL text and an ordered list of values
+export function bindParameters(sql: string, params?: unknown, namedParams?: unknown): BoundStatement {
+  if (params !== undefined && namedParams !== undefined) {
+    throw new SqlValidationError("Pass either params or named_params, not both", "params");
+  }
+  if (namedParams !== undefined) {
+    if (typeof namedParams !== "object" || namedParams === null || Array.isArray(namedParams)) {
+      throw new SqlValidationError("named_params must be an object of name/value pairs", "named_params");
+    }
+    return rewriteNamedParameters(sql, namedParams as Record<string, unknown>);
+  }
+  if (params !== undefined && !Array.isArray(params)) {
+    throw new SqlValidationError("params must be an array of values for $1, $2, ...", "params");
+  }
+  return { sql, values: (params as unknown[] | undefined) ?? [] };
+}
+
+// Ask PostgreSQL which types it infers for the statement's parameters by
+// preparing it. Returns undefined when the types can't be determined, in which
+// case the values are sent as given and PostgreSQL reports any problem.
+export async function describeParameterTypes(client: pg.ClientBase, sql: string): Promise<ParameterType[] | undefined> {
+  const name = `mcp_describe_${randomUUID().replace(/-/g, "")}`;
+  // A failed PREPARE must not abort an explicit transaction the client is in
+  const scope = transactionScope(client);
+  await scope.begin();
+  try {
+    await client.query(`PREPARE ${quoteIdentifier(name)} AS ${sql}`);
+  } catch {
+    await scope.rollback();
+    return undefined;
+  }
+  try {
+    const result = await client.query(
+      `SELECT t.typname AS name, t.typcategory AS category,
+              e.typname AS element_name, e.typcategory AS element_category
+       FROM pg_prepared_statements p
+       CROSS JOIN LATERAL unnest(p.parameter_types) WITH ORDINALITY AS u(type, position)
+       JOIN pg_type t ON t.oid = u.type
+       LEFT JOIN pg_type e ON e.oid = t.typelem AND t.typcategory = 'A'
+       WHERE p.name = $1
+       ORDER BY u.position`,
+      [name],
+    );
+    return result.rows.map((row) => ({
+      name: row.name,
+      category: row.category,
+      elementName: row.element_name ?? undefined,
+      elementCategory: row.element_category ?? undefined,
+    }));
+  } finally {
+    await client.query(`DEALLOCATE ${quoteIdentifier(name)}`);
+    await scope.commit();
+  }
+}
+
+// pg_type.typcategory of the built-in types whose values are converted,
+// for callers that only know a type's name
+const TYPE_CATEGORIES: Record<string, string> = {
+  int2: "N", int4: "N", int8: "N", float4: "N", float8: "N", numeric: "N", oid: "N",
+  bool: "B",
+  date: "D", time: "D", timetz: "D", timestamp: "D", timestamptz: "D",
+  text: "S", varchar: "S", bpchar: "S", char: "S", name: "S",
+};
+
+// Describe a table column, as reported by information_schema.columns, as a parameter type
+export function columnParameterType(column: ColumnInfo): ParameterType {
+  if (column.dataType === "ARRAY") {
+    // Array udt names are the element type name prefixed with an underscore
+    const elementName = column.udtName.replace(/^_/, "");
+    return { name: column.udtName, category: "A", elementName, elementCategory: TYPE_CATEGORIES[elementName] ?? "" };
+  }
+  return { name: column.udtName, category: TYPE_CATEGORIES[column.udtName] ?? "" };
+}
+
+const TRUE_STRINGS = new Set(["true", "t", "yes", "y", "on", "1"]);
+const FALSE_STRINGS = new Set(["false", "f", "no", "n", "off", "0"]);
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+function coerceValue(value: unknown, type: ParameterType, field: string): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const typeName = type.category === "A" && type.elementName ? `${type.elementName}[]` : type.name;
+  const mismatch = (expected: string) =>
+    new SqlValidationError(`Expected ${expected} for ${typeName} value, got ${JSON.stringify(value)}`, field, "type_mismatch");
+
+  // json and jsonb take any JSON value; serialize it so arrays aren't sent as PostgreSQL arrays
+  if (type.name === "json" || type.name === "jsonb") {
+    return JSON.stringify(value);
+  }
+  // bytea takes base64, or PostgreSQL's own \x hex format
+  if (type.name === "bytea") {
+    if (typeof value === "string" && /^\\x([0-9A-Fa-f]{2})*$/.test(value)) {
+      return value;
+    }
+    if (typeof value === "string" && BASE64.test(value.replace(/\s/g, ""))) {
+      return Buffer.from(value, "base64");
+    }
+    throw mismatch("a base64 string");
+  }
+
+  switch (type.category) {
+    case "B":
+      if (typeof value === "boolean") {
+        return value;
+      }
+      if (typeof value === "number" && (value === 0 || value === 1)) {
+        return value === 1;
+      }
+      if (typeof value === "string" && TRUE_STRINGS.has(value.trim().toLowerCase())) {
+        return true;
+      }
+      if (typeof value === "string" && FALSE_STRINGS.has(value.trim().toLowerCase())) {
+        return false;
+      }
+      throw mismatch("a boolean");
+    case "N":
+      if (typeof value === "number") {
+        if (!Number.isFinite(value)) {
+          throw mismatch("a finite number");
+        }
+        if (Number.isInteger(value) && !Number.isSafeInteger(value)) {
+          throw new SqlValidationError(
+            `Integer ${value} is too large to be represented exactly; pass it as a string`,
+            field,
+            "type_mismatch",
+          );
+        }
+        return String(value);
+      }
+      // Strings keep full precision for numeric and bigint values
+      if (typeof value === "string" && /^\s*[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?\s*$/.test(value)) {
+        return value.trim();
+      }
+      throw mismatch("a number");
+    case "D":
+      // Numbers are taken as milliseconds since the Unix epoch
+      if (typeof value === "number") {
+        const date = new Date(value);
+        // NaN, Infinity and values past the Date range have no timestamp
+        if (!Number.isFinite(date.getTime())) {
+          throw mismatch("a timestamp");
+        }
+        return date.toISOString();
+      }
+      if (typeof value === "string") {
+        return value;
+      }
+      throw mismatch("a date/time string or epoch milliseconds");
+    case "S":
+      if (typeof value === "object") {
+        throw mismatch("a string");
+      }
+      return String(value);
+    case "A":
+      if (!Array.isArray(value)) {
+        throw mismatch("an array");
+      }
+      return value.map((item, index) =>
+        coerceValue(
+          item,
+          { name: type.elementName ?? "unknown", category: type.elementCategory ?? "" },
+          `${field}[${index}]`,
+        ),
+      );
+    default:
+      if (typeof value === "object") {
+        return JSON.stringify(value);
+      }
+      return value;
+  }
+}
+
+// Run every conversion, reporting all mismatches at once
+function coerceAll(entries: { value: unknown; type: ParameterType; field: string; nullable?: boolean }[]): unknown[] {
+  const errors: SqlValidationError[] = [];
+  const coerced = entries.map(({ value, type, field, nullable }) => {
+    try {
+      if (nullable === false && value === null) {
+        throw new SqlValidationError("Column does not accept null", field, "type_mismatch");
+      }
+      return coerceValue(value, type, field);
+    } catch (error) {
+      if (!(error instanceof SqlValidationError)) {
+        throw error;
+      }
+      errors.push(error);
+      return undefined;
+    }
+  });
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  if (errors.length > 1) {
+    throw new SqlValidationError(
+      `${errors.length} values do not match their types`,
+      errors[0].field,
+      "type_mismatch",
+      errors.map((error) => ({ field: error.field!, message: error.message })),
+    );
+  }
+  return coerced;
+}
+
+// Convert JSON argument values to what node-postgres should send for each
+// parameter type, reporting mismatches per parameter
+export function coerceParameters(values: unknown[], types: ParameterType[] | undefined, field: string = "params"): unknown[] {
+  if (!types) {
+    return values;
+  }
+  if (types.length !== values.length) {
+    throw new SqlValidationError(
+      `Statement expects ${types.length} parameter(s) but ${values.length} were given`,
+      field,
+    );
+  }
+  return coerceAll(values.map((value, index) => ({ value, type: types[index], field: `${field}[${index}]` })));
+}
+
+// Convert values destined for table columns, e.g. insert_entry's values,
+// reporting mismatches per column. NULL is refused for NOT NULL columns
+// unless checkNullable is false, as for WHERE conditions.
+export function coerceColumnValues(
+  entries: { column: ColumnInfo; value: unknown; field: string }[],
+  checkNullable: boolean = true,
+): unknown[] {
+  return coerceAll(entries.map(({ column, value, field }) => ({
+    value,
+    type: columnParameterType(column),
+    field,
+    nullable: checkNullable ? column.isNullable : undefined,
+  })));
+}
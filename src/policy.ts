@@ -0,0 +1,198 @@
+// Per-database access policy declared in databases.json under "policy"
+export interface DatabasePolicy {
+  // Refuse every tool that modifies data or schema
+  readOnly?: boolean;
+  // When set, only these tools may be used against the database
+  allowedTools?: string[];
+  // Tools that may never be used against the database
+  deniedTools?: string[];
+  // When set, tables outside these schemas cannot be touched
+  allowedSchemas?: string[];
+  // Table patterns ("table", "schema.table", "*" wildcards) that may be touched
+  allowedTables?: string[];
+  // Table patterns that may never be touched, checked before allowedTables
+  deniedTables?: string[];
+  // Upper bound on rows a single update_entry/delete_entry call, or the
+  // DO UPDATE of a bulk_insert upsert, may change
+  maxAffectedRows?: number;
+  // Whether destructive tools need a confirmation token from a dry run (default true)
+  requireConfirmation?: boolean;
+  // Function patterns the query tool refuses in addition to the built-in denylist
+  deniedFunctions?: string[];
+  // Function patterns exempted from the built-in denylist
+  allowedFunctions?: string[];
+  // Whether lock_analysis may cancel or terminate other sessions (default false)
+  allowBackendSignals?: boolean;
+}
+
+// Raised when a tool call is refused by a database policy. Reported to the
+// client as a structured tool error.
+export class PolicyViolationError extends Error {
+  public readonly code = "policy_denied";
+
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+    this.name = "PolicyViolationError";
+  }
+}
+
+// Tools that modify data or schema and are therefore refused on read-only databases
+export const WRITE_TOOLS = new Set([
+  "create_table",
+  "insert_entry",
+  "bulk_insert",
+  "update_entry",
+  "delete_entry",
+  "delete_table",
+]);
+
+// The write tools whose effect each data-modifying statement has; a statement
+// run some other way, such as under EXPLAIN ANALYZE, needs all of them
+export const STATEMENT_WRITE_TOOLS: Record<string, string[]> = {
+  InsertStmt: ["insert_entry"],
+  UpdateStmt: ["update_entry"],
+  DeleteStmt: ["delete_entry"],
+  MergeStmt: ["insert_entry", "update_entry", "delete_entry"],
+};
+
+// Tools that destroy or overwrite data; they support dry runs and, unless the
+// policy turns it off, need a confirmation token from one. bulk_insert only
+// overwrites rows when it upserts with DO UPDATE, and only then needs one.
+export const DESTRUCTIVE_TOOLS = new Set(["update_entry", "delete_entry", "delete_table", "bulk_insert"]);
+
+// Tools that don't target a particular database, or that act on a cursor or
+// transaction whose database was checked when it was opened
+export const GLOBAL_TOOLS = new Set([
+  "list_databases",
+  "fetch_more",
+  "close_cursor",
+  "commit_transaction",
+  "rollback_transaction",
+]);
+
+export function isToolAllowed(policy: DatabasePolicy | undefined, tool: string): boolean {
+  if (GLOBAL_TOOLS.has(tool) || !policy) {
+    return true;
+  }
+  if (policy.readOnly && WRITE_TOOLS.has(tool)) {
+    return false;
+  }
+  if (policy.deniedTools?.includes(tool)) {
+    return false;
+  }
+  if (policy.allowedTools && !policy.allowedTools.includes(tool)) {
+    return false;
+  }
+  return true;
+}
+
+export function assertToolAllowed(policy: DatabasePolicy | undefined, tool: string, databaseId: string): void {
+  if (isToolAllowed(policy, tool)) {
+    return;
+  }
+  const reason = policy?.readOnly && WRITE_TOOLS.has(tool)
+    ? "the database is configured as read-only"
+    : "the tool is not permitted by the database policy";
+  throw new PolicyViolationError(`Tool "${tool}" cannot be used on database '${databaseId}': ${reason}`, "database");
+}
+
+export function requiresConfirmation(policy: DatabasePolicy | undefined, tool: string): boolean {
+  return DESTRUCTIVE_TOOLS.has(tool) && policy?.requireConfirmation !== false;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+// Patterns containing a dot match "schema.table", others match the bare table name
+function matchesTablePattern(pattern: string, table: { schema: string; name: string }): boolean {
+  const target = pattern.includes(".") ? `${table.schema}.${table.name}` : table.name;
+  return patternToRegExp(pattern).test(target);
+}
+
+// Why a policy refuses a table, or undefined when the table may be touched
+function tableDenialReason(policy: DatabasePolicy | undefined, table: { schema: string; name: string }): string | undefined {
+  if (!policy) {
+    return undefined;
+  }
+  const qualified = `${table.schema}.${table.name}`;
+
+  if (policy.allowedSchemas && !policy.allowedSchemas.includes(table.schema)) {
+    return `Table ${qualified} is outside the allowed schemas (${policy.allowedSchemas.join(", ")})`;
+  }
+  if (policy.deniedTables?.some((pattern) => matchesTablePattern(pattern, table))) {
+    return `Access to table ${qualified} is denied by the database policy`;
+  }
+  if (policy.allowedTables && !policy.allowedTables.some((pattern) => matchesTablePattern(pattern, table))) {
+    return `Table ${qualified} is not in the database policy's allowed tables`;
+  }
+  return undefined;
+}
+
+// Schema-level check for objects that aren't tables, such as functions and types
+export function isSchemaAllowed(policy: DatabasePolicy | undefined, schema: string): boolean {
+  return !policy?.allowedSchemas || policy.allowedSchemas.includes(schema);
+}
+
+export function isTableAllowed(policy: DatabasePolicy | undefined, table: { schema: string; name: string }): boolean {
+  return tableDenialReason(policy, table) === undefined;
+}
+
+export function assertTableAllowed(
+  policy: DatabasePolicy | undefined,
+  table: { schema: string; name: string },
+  field: string = "tableName",
+): void {
+  const reason = tableDenialReason(policy, table);
+  if (reason) {
+    throw new PolicyViolationError(reason, field);
+  }
+}
+
+export function assertAffectedRowsAllowed(policy: DatabasePolicy | undefined, rowCount: number): void {
+  if (policy?.maxAffectedRows !== undefined && rowCount > policy.maxAffectedRows) {
+    throw new PolicyViolationError(
+      `Statement would affect ${rowCount} rows, more than the policy limit of ${policy.maxAffectedRows}; no changes were made`,
+    );
+  }
+}
+
+// Check the shape of a policy loaded from the configuration file
+export function validatePolicy(policy: unknown, databaseId: string): DatabasePolicy {
+  if (typeof policy !== "object" || policy === null || Array.isArray(policy)) {
+    throw new Error(`Policy for database '${databaseId}' must be an object`);
+  }
+  const value = policy as Record<string, unknown>;
+
+  for (const key of [
+    "allowedTools",
+    "deniedTools",
+    "allowedSchemas",
+    "allowedTables",
+    "deniedTables",
+    "deniedFunctions",
+    "allowedFunctions",
+  ]) {
+    const list = value[key];
+    if (list !== undefined && (!Array.isArray(list) || list.some((item) => typeof item !== "string"))) {
+      throw new Error(`Policy for database '${databaseId}': '${key}' must be an array of strings`);
+    }
+  }
+  for (const key of ["readOnly", "requireConfirmation", "allowBackendSignals"]) {
+    if (value[key] !== undefined && typeof value[key] !== "boolean") {
+      throw new Error(`Policy for database '${databaseId}': '${key}' must be a boolean`);
+    }
+  }
+  if (
+    value.maxAffectedRows !== undefined &&
+    (typeof value.maxAffectedRows !== "number" || !Number.isInteger(value.maxAffectedRows) || value.maxAffectedRows < 0)
+  ) {
+    throw new Error(`Policy for database '${databaseId}': 'maxAffectedRows' must be a non-negative integer`);
+  }
+
+  return value as DatabasePolicy;
+}
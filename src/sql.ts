@@ -0,0 +1,611 @@
+import pg from "pg";
+
+// Error raised when tool input cannot be turned into safe SQL. The call tool
+// handler reports these back to the client as a structured tool error instead
+// of letting them reach the database.
+export class SqlValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly field?: string,
+    public readonly code: string = "invalid_input",
+    // One entry per offending field when several are reported together
+    public readonly errors?: { field: string; message: string }[],
+  ) {
+    super(message);
+    this.name = "SqlValidationError";
+  }
+}
+
+export interface QualifiedName {
+  schema?: string;
+  name: string;
+}
+
+export interface ResolvedTable {
+  schema: string;
+  name: string;
+  kind: string;
+  // Fully quoted, schema-qualified name ready to be used in SQL text
+  sql: string;
+}
+
+export interface ColumnInfo {
+  name: string;
+  dataType: string;
+  udtName: string;
+  isNullable: boolean;
+}
+
+const MAX_IDENTIFIER_LENGTH = 63;
+const UNQUOTED_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+// Relation kinds from pg_class.relkind
+const TABLE_KINDS = ["r", "p"];
+const WRITABLE_KINDS = ["r", "p", "v", "f"];
+
+// Quote an identifier the same way PostgreSQL's quote_ident does for every name
+export function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+export function formatQualifiedName(name: QualifiedName): string {
+  return name.schema
+    ? `${quoteIdentifier(name.schema)}.${quoteIdentifier(name.name)}`
+    : quoteIdentifier(name.name);
+}
+
+function checkIdentifierLength(identifier: string, field: string): string {
+  if (identifier.length === 0) {
+    throw new SqlValidationError("Identifier must not be empty", field);
+  }
+  if (Buffer.byteLength(identifier, "utf8") > MAX_IDENTIFIER_LENGTH) {
+    throw new SqlValidationError(
+      `Identifier "${identifier}" is longer than ${MAX_IDENTIFIER_LENGTH} bytes`,
+      field,
+    );
+  }
+  if (identifier.includes("\0")) {
+    throw new SqlValidationError("Identifier must not contain NUL characters", field);
+  }
+  return identifier;
+}
+
+// Normalize a single identifier using PostgreSQL's rules: unquoted names are
+// folded to lower case, double-quoted names are taken literally.
+export function normalizeIdentifier(input: string, field: string): string {
+  if (typeof input !== "string") {
+    throw new SqlValidationError("Identifier must be a string", field);
+  }
+  const trimmed = input.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    const inner = trimmed.slice(1, -1);
+    if (inner.replace(/""/g, "").includes('"')) {
+      throw new SqlValidationError(`Malformed quoted identifier: ${input}`, field);
+    }
+    return checkIdentifierLength(inner.replace(/""/g, '"'), field);
+  }
+  if (!UNQUOTED_IDENTIFIER.test(trimmed)) {
+    throw new SqlValidationError(
+      `Invalid identifier "${input}". Use letters, digits, underscores and dollar signs, or wrap the name in double quotes.`,
+      field,
+    );
+  }
+  return checkIdentifierLength(trimmed.toLowerCase(), field);
+}
+
+// Split "schema.table" (either part optionally double-quoted) into its parts
+export function parseQualifiedName(input: string, field: string = "tableName"): QualifiedName {
+  if (typeof input !== "string" || input.trim().length === 0) {
+    throw new SqlValidationError("A table name is required", field);
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  const text = input.trim();
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      if (inQuotes && text[i + 1] === '"') {
+        current += '""';
+        i++;
+        continue;
+      }
+      inQuotes = !inQuotes;
+      current += ch;
+    } else if (ch === "." && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (inQuotes) {
+    throw new SqlValidationError(`Unterminated quoted identifier in "${input}"`, field);
+  }
+  parts.push(current);
+
+  if (parts.length > 2) {
+    throw new SqlValidationError(
+      `Invalid table name "${input}" - expected "table" or "schema.table"`,
+      field,
+    );
+  }
+
+  const normalized = parts.map((part) => normalizeIdentifier(part, field));
+  return normalized.length === 2
+    ? { schema: normalized[0], name: normalized[1] }
+    : { name: normalized[0] };
+}
+
+// Look a table up in the catalog, following search_path for unqualified names
+export async function resolveTable(
+  client: pg.ClientBase,
+  input: string,
+  options: { field?: string; kinds?: string[] } = {},
+): Promise<ResolvedTable> {
+  const field = options.field ?? "tableName";
+  const kinds = options.kinds ?? WRITABLE_KINDS;
+  const qualified = parseQualifiedName(input, field);
+
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE c.oid = to_regclass($1)`,
+    [formatQualifiedName(qualified)],
+  );
+
+  if (result.rows.length === 0) {
+    throw new SqlValidationError(`Table "${input}" does not exist`, field, "not_found");
+  }
+
+  const row = result.rows[0];
+  if (!kinds.includes(row.kind)) {
+    throw new SqlValidationError(
+      `"${input}" is not a table that supports this operation (relkind '${row.kind}')`,
+      field,
+      "wrong_object_type",
+    );
+  }
+
+  return {
+    schema: row.schema,
+    name: row.name,
+    kind: row.kind,
+    sql: formatQualifiedName({ schema: row.schema, name: row.name }),
+  };
+}
+
+// Resolve a table that must be an ordinary or partitioned table (e.g. for DROP TABLE)
+export function resolveBaseTable(client: pg.ClientBase, input: string, field?: string): Promise<ResolvedTable> {
+  return resolveTable(client, input, { field, kinds: TABLE_KINDS });
+}
+
+export async function getTableColumns(
+  client: pg.ClientBase,
+  table: ResolvedTable,
+): Promise<Map<string, ColumnInfo>> {
+  const result = await client.query(
+    `SELECT column_name, data_type, udt_name, is_nullable
+     FROM information_schema.columns
+     WHERE table_schema = $1 AND table_name = $2
+     ORDER BY ordinal_position`,
+    [table.schema, table.name],
+  );
+
+  const columns = new Map<string, ColumnInfo>();
+  for (const row of result.rows) {
+    columns.set(row.column_name, {
+      name: row.column_name,
+      dataType: row.data_type,
+      udtName: row.udt_name,
+      isNullable: row.is_nullable === "YES",
+    });
+  }
+  return columns;
+}
+
+// Match caller-supplied column names against the catalog. An exact match wins,
+// otherwise the name is normalized the way an unquoted identifier would be.
+export function resolveColumn(
+  columns: Map<string, ColumnInfo>,
+  table: ResolvedTable,
+  input: string,
+  field: string,
+): ColumnInfo {
+  if (typeof input === "string" && columns.has(input)) {
+    return columns.get(input)!;
+  }
+  const normalized = normalizeIdentifier(input, field);
+  const column = columns.get(normalized);
+  if (!column) {
+    throw new SqlValidationError(
+      `Column "${input}" does not exist in table ${table.schema}.${table.name}`,
+      field,
+      "not_found",
+    );
+  }
+  return column;
+}
+
+// Column type grammar used by create_table. Supported forms:
+//   type_name [ '(' int [ ',' int ] ')' ] [ trailing words ] { '[' [int] ']' }
+// followed by optional column constraints:
+//   PRIMARY KEY | NOT NULL | NULL | UNIQUE | DEFAULT <literal>
+//   REFERENCES table [ '(' column ')' ] [ ON DELETE|UPDATE action ]
+// Type names are checked with to_regtype so unknown types are rejected before
+// the CREATE TABLE is sent.
+
+type TokenKind = "word" | "number" | "string" | "quoted" | "punct";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+}
+
+const CONSTRAINT_KEYWORDS = new Set(["primary", "not", "null", "unique", "default", "references", "constraint", "check", "generated", "collate"]);
+const SERIAL_TYPES = new Set(["serial", "serial2", "serial4", "serial8", "smallserial", "bigserial"]);
+const DEFAULT_KEYWORDS = new Set(["true", "false", "null", "current_timestamp", "current_date", "current_time", "localtimestamp", "localtime"]);
+const DEFAULT_FUNCTIONS = new Set(["now", "gen_random_uuid", "uuid_generate_v4", "clock_timestamp", "statement_timestamp", "transaction_timestamp"]);
+const REFERENTIAL_ACTIONS = ["cascade", "restrict", "no action", "set null", "set default"];
+
+function tokenizeColumnType(input: string, field: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i))!;
+      tokens.push({ kind: "word", value: match[0].toLowerCase() });
+      i += match[0].length;
+    } else if (/[0-9]/.test(ch)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(input.slice(i))!;
+      tokens.push({ kind: "number", value: match[0] });
+      i += match[0].length;
+    } else if (ch === "'") {
+      let value = "";
+      i++;
+      while (true) {
+        if (i >= input.length) {
+          throw new SqlValidationError(`Unterminated string literal in column type "${input}"`, field);
+        }
+        if (input[i] === "'" && input[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (input[i] === "'") {
+          i++;
+          break;
+        } else {
+          value += input[i++];
+        }
+      }
+      tokens.push({ kind: "string", value });
+    } else if (ch === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new SqlValidationError(`Unterminated quoted identifier in column type "${input}"`, field);
+      }
+      tokens.push({ kind: "quoted", value: checkIdentifierLength(input.slice(i + 1, end), field) });
+      i = end + 1;
+    } else if ("(),[].-".includes(ch)) {
+      tokens.push({ kind: "punct", value: ch });
+      i++;
+    } else {
+      throw new SqlValidationError(`Unexpected character '${ch}' in column type "${input}"`, field);
+    }
+  }
+  return tokens;
+}
+
+class TokenStream {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+    private readonly field: string,
+  ) {}
+
+  peek(offset: number = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw this.error("Unexpected end of column type");
+    }
+    return token;
+  }
+
+  isWord(value: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "word" && token.value === value;
+  }
+
+  isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === "punct" && token.value === value;
+  }
+
+  expectWord(value: string): void {
+    if (!this.isWord(value)) {
+      throw this.error(`Expected ${value.toUpperCase()}`);
+    }
+    this.position++;
+  }
+
+  expectPunct(value: string): void {
+    if (!this.isPunct(value)) {
+      throw this.error(`Expected '${value}'`);
+    }
+    this.position++;
+  }
+
+  error(message: string): SqlValidationError {
+    const token = this.peek();
+    const near = token ? ` near "${token.value}"` : "";
+    return new SqlValidationError(`${message}${near} in column type "${this.source}"`, this.field);
+  }
+}
+
+function parseIdentifierToken(stream: TokenStream): string {
+  const token = stream.next();
+  if (token.kind === "word" || token.kind === "quoted") {
+    return token.value;
+  }
+  throw stream.error("Expected an identifier");
+}
+
+function parseTypeName(stream: TokenStream): { sql: string; isSerial: boolean } {
+  const words: string[] = [];
+  const first = stream.next();
+  if (first.kind !== "word" && first.kind !== "quoted") {
+    throw stream.error("Expected a type name");
+  }
+
+  // Schema-qualified user-defined type, e.g. public.mood
+  if (stream.isPunct(".")) {
+    stream.next();
+    const second = parseIdentifierToken(stream);
+    words.push(`${quoteIdentifier(first.value)}.${quoteIdentifier(second)}`);
+  } else if (first.kind === "quoted") {
+    words.push(quoteIdentifier(first.value));
+  } else {
+    words.push(first.value);
+    while (stream.peek()?.kind === "word" && !CONSTRAINT_KEYWORDS.has(stream.peek()!.value)) {
+      words.push(stream.next().value);
+    }
+  }
+
+  let modifiers = "";
+  if (stream.isPunct("(")) {
+    stream.next();
+    const values: string[] = [];
+    while (true) {
+      const token = stream.next();
+      if (token.kind !== "number" || token.value.includes(".")) {
+        throw stream.error("Type modifiers must be integers");
+      }
+      values.push(token.value);
+      if (!stream.isPunct(",")) {
+        break;
+      }
+      stream.next();
+    }
+    stream.expectPunct(")");
+    modifiers = `(${values.join(", ")})`;
+  }
+
+  // Words that may follow modifiers, e.g. timestamp(3) with time zone
+  const trailing: string[] = [];
+  while (stream.peek()?.kind === "word" && !CONSTRAINT_KEYWORDS.has(stream.peek()!.value)) {
+    trailing.push(stream.next().value);
+  }
+
+  let arrays = "";
+  while (stream.isPunct("[")) {
+    stream.next();
+    const size = stream.peek();
+    if (size?.kind === "number") {
+      stream.next();
+      arrays += `[${size.value}]`;
+    } else {
+      arrays += "[]";
+    }
+    stream.expectPunct("]");
+  }
+
+  const sql = [words.join(" ") + modifiers, ...trailing].join(" ") + arrays;
+  const isSerial = words.length === 1 && SERIAL_TYPES.has(words[0]) && !modifiers && trailing.length === 0 && !arrays;
+  return { sql, isSerial };
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function parseDefault(stream: TokenStream): string {
+  const token = stream.next();
+  if (token.kind === "string") {
+    return quoteLiteral(token.value);
+  }
+  if (token.kind === "number") {
+    return token.value;
+  }
+  if (token.kind === "punct" && token.value === "-") {
+    const number = stream.next();
+    if (number.kind !== "number") {
+      throw stream.error("Expected a number after '-'");
+    }
+    return `-${number.value}`;
+  }
+  if (token.kind === "word" && DEFAULT_KEYWORDS.has(token.value)) {
+    return token.value.toUpperCase();
+  }
+  if (token.kind === "word" && DEFAULT_FUNCTIONS.has(token.value)) {
+    stream.expectPunct("(");
+    stream.expectPunct(")");
+    return `${token.value}()`;
+  }
+  throw stream.error(
+    "DEFAULT must be a literal, TRUE/FALSE/NULL, CURRENT_TIMESTAMP/CURRENT_DATE or one of " +
+      Array.from(DEFAULT_FUNCTIONS).map((name) => `${name}()`).join(", "),
+  );
+}
+
+interface ParsedReference {
+  table: QualifiedName;
+  column?: string;
+  actions: string[];
+}
+
+function parseReference(stream: TokenStream): ParsedReference {
+  const first = parseIdentifierToken(stream);
+  let table: QualifiedName = { name: first };
+  if (stream.isPunct(".")) {
+    stream.next();
+    table = { schema: first, name: parseIdentifierToken(stream) };
+  }
+
+  let column: string | undefined;
+  if (stream.isPunct("(")) {
+    stream.next();
+    column = parseIdentifierToken(stream);
+    stream.expectPunct(")");
+  }
+
+  const actions: string[] = [];
+  while (stream.isWord("on")) {
+    stream.next();
+    const event = stream.next();
+    if (event.kind !== "word" || (event.value !== "delete" && event.value !== "update")) {
+      throw stream.error("Expected ON DELETE or ON UPDATE");
+    }
+    const action = REFERENTIAL_ACTIONS.find((candidate) =>
+      candidate.split(" ").every((word, offset) => stream.isWord(word, offset)),
+    );
+    if (!action) {
+      throw stream.error(`Expected one of ${REFERENTIAL_ACTIONS.map((a) => a.toUpperCase()).join(", ")}`);
+    }
+    action.split(" ").forEach(() => stream.next());
+    actions.push(`ON ${event.value.toUpperCase()} ${action.toUpperCase()}`);
+  }
+
+  return { table, column, actions };
+}
+
+// Build a safe "name type constraints" column definition for CREATE TABLE,
+// validating the type and any referenced table against the catalog.
+export async function buildColumnDefinition(
+  client: pg.ClientBase,
+  column: { name: string; type: string },
+  field: string,
+): Promise<string> {
+  if (!column || typeof column !== "object") {
+    throw new SqlValidationError("Column definition must be an object with name and type", field);
+  }
+  const name = normalizeIdentifier(column.name, `${field}.name`);
+  const typeField = `${field}.type`;
+  if (typeof column.type !== "string" || column.type.trim().length === 0) {
+    throw new SqlValidationError("Column type is required", typeField);
+  }
+
+  const stream = new TokenStream(tokenizeColumnType(column.type, typeField), column.type, typeField);
+  const type = parseTypeName(stream);
+
+  if (!type.isSerial) {
+    let known = false;
+    try {
+      const result = await client.query("SELECT to_regtype($1) IS NOT NULL AS known", [type.sql]);
+      known = result.rows[0].known;
+    } catch {
+      known = false;
+    }
+    if (!known) {
+      throw new SqlValidationError(`Unknown column type "${type.sql}"`, typeField, "unknown_type");
+    }
+  }
+
+  const parts = [quoteIdentifier(name), type.sql];
+  while (!stream.done()) {
+    if (stream.isWord("primary")) {
+      stream.next();
+      stream.expectWord("key");
+      parts.push("PRIMARY KEY");
+    } else if (stream.isWord("not")) {
+      stream.next();
+      stream.expectWord("null");
+      parts.push("NOT NULL");
+    } else if (stream.isWord("null")) {
+      stream.next();
+      parts.push("NULL");
+    } else if (stream.isWord("unique")) {
+      stream.next();
+      parts.push("UNIQUE");
+    } else if (stream.isWord("default")) {
+      stream.next();
+      parts.push(`DEFAULT ${parseDefault(stream)}`);
+    } else if (stream.isWord("references")) {
+      stream.next();
+      const reference = parseReference(stream);
+      const target = await resolveBaseTable(client, formatQualifiedName(reference.table), typeField);
+      let clause = `REFERENCES ${target.sql}`;
+      if (reference.column) {
+        const columns = await getTableColumns(client, target);
+        if (!columns.has(reference.column)) {
+          throw new SqlValidationError(
+            `Column "${reference.column}" does not exist in referenced table ${target.schema}.${target.name}`,
+            typeField,
+            "not_found",
+          );
+        }
+        clause += ` (${quoteIdentifier(reference.column)})`;
+      }
+      parts.push([clause, ...reference.actions].join(" "));
+    } else {
+      throw stream.error("Unsupported column constraint");
+    }
+  }
+
+  return parts.join(" ");
+}
+
+// Validate the name for a table that is about to be created: the schema (when
+// given) must exist and the table must not. Unqualified names are reported in
+// the schema the table will be created in.
+export async function resolveNewTable(
+  client: pg.ClientBase,
+  input: string,
+  field: string = "tableName",
+): Promise<{ schema: string; name: string; sql: string }> {
+  const qualified = parseQualifiedName(input, field);
+
+  let schema = qualified.schema;
+  if (schema) {
+    const result = await client.query("SELECT 1 FROM pg_namespace WHERE nspname = $1", [schema]);
+    if (result.rows.length === 0) {
+      throw new SqlValidationError(`Schema "${schema}" does not exist`, field, "not_found");
+    }
+  } else {
+    const result = await client.query("SELECT current_schema() AS schema");
+    schema = result.rows[0].schema;
+    if (!schema) {
+      throw new SqlValidationError("No schema in search_path to create the table in", field, "not_found");
+    }
+  }
+
+  const existing = await client.query("SELECT to_regclass($1) IS NOT NULL AS exists", [formatQualifiedName(qualified)]);
+  if (existing.rows[0].exists) {
+    throw new SqlValidationError(`Relation "${input}" already exists`, field, "already_exists");
+  }
+
+  return { schema, name: qualified.name, sql: formatQualifiedName({ schema, name: qualified.name }) };
+}
@@ -0,0 +1,274 @@
+import pg from "pg";
+import { extensionSchema, serverVersion } from "./introspection.js";
+import { SqlValidationError } from "./sql.js";
+
+// A statement as pg_stat_statements aggregates it: constants are replaced by
+// $n placeholders and its executions are summed
+export interface StatementStats {
+  queryId: string;
+  query: string;
+  calls: number;
+  totalTimeMs: number;
+  meanTimeMs: number;
+  rows: number;
+  sharedBlocksHit: number;
+  sharedBlocksRead: number;
+  sharedBlocksWritten: number;
+}
+
+// Statements that can be planned on their own, as opposed to utility
+// statements such as SET or COMMIT
+const PLANNABLE_QUERY = "^\\s*(select|insert|update|delete|merge|with|table|values)\\M";
+
+// How top_queries can rank statements
+export const STATEMENT_ORDERS = {
+  total_time: (stats: StatementStats) => stats.totalTimeMs,
+  mean_time: (stats: StatementStats) => stats.meanTimeMs,
+  calls: (stats: StatementStats) => stats.calls,
+  rows: (stats: StatementStats) => stats.rows,
+  // Shared blocks read from outside shared buffers or written out
+  io: (stats: StatementStats) => stats.sharedBlocksRead + stats.sharedBlocksWritten,
+};
+
+export type StatementOrder = keyof typeof STATEMENT_ORDERS;
+
+// Schema-qualified pg_stat_statements view and the columns that differ
+// between PostgreSQL versions
+interface StatementsSource {
+  view: string;
+  totalTime: string;
+  toplevel: string;
+  info?: string;
+}
+
+// Fails with extension_unavailable when pg_stat_statements isn't installed
+async function statementsSource(client: pg.ClientBase, field?: string): Promise<StatementsSource> {
+  const schema = await extensionSchema(client, "pg_stat_statements");
+  if (!schema) {
+    throw new SqlValidationError(
+      "pg_stat_statements is not installed in this database: add it to shared_preload_libraries and run CREATE EXTENSION pg_stat_statements",
+      field,
+      "extension_unavailable",
+    );
+  }
+  const version = await serverVersion(client);
+  return {
+    view: `${schema}.pg_stat_statements`,
+    // total_time was split into planning and execution time in PostgreSQL 13
+    totalTime: version >= 130000 ? "total_exec_time" : "total_time",
+    // Statements nested in functions are tracked apart from top-level ones since PostgreSQL 14
+    toplevel: version >= 140000 ? "toplevel" : "true",
+    // When the whole view was last reset, recorded since PostgreSQL 14
+    info: version >= 140000 ? `${schema}.pg_stat_statements_info` : undefined,
+  };
+}
+
+function statementsQuery(source: StatementsSource): string {
+  return `SELECT userid::text || ':' || queryid::text || ':' || ${source.toplevel}::text AS key,
+                 queryid::text AS query_id, query, calls, ${source.totalTime} AS total_time, rows,
+                 shared_blks_hit, shared_blks_read, shared_blks_written
+          FROM ${source.view}
+          WHERE dbid = (SELECT oid FROM pg_database WHERE datname = current_database())`;
+}
+
+function statementStats(row: any): StatementStats {
+  const calls = Number(row.calls);
+  return {
+    queryId: row.query_id,
+    query: row.query,
+    calls,
+    totalTimeMs: row.total_time,
+    meanTimeMs: calls > 0 ? row.total_time / calls : 0,
+    rows: Number(row.rows),
+    sharedBlocksHit: Number(row.shared_blks_hit),
+    sharedBlocksRead: Number(row.shared_blks_read),
+    sharedBlocksWritten: Number(row.shared_blks_written),
+  };
+}
+
+// Statements run in the current database that took the most execution time
+// in total
+export async function topStatements(
+  client: pg.ClientBase,
+  options: { limit: number; plannableOnly?: boolean; field?: string },
+): Promise<StatementStats[]> {
+  const source = await statementsSource(client, options.field);
+  const result = await client.query(
+    `${statementsQuery(source)}
+       AND ($2::boolean IS NOT TRUE OR query ~* '${PLANNABLE_QUERY}')
+     ORDER BY ${source.totalTime} DESC
+     LIMIT $1`,
+    [options.limit, options.plannableOnly ?? false],
+  );
+  return result.rows.map(statementStats);
+}
+
+// Counters of every statement of a database at one moment, keyed by user,
+// query id and nesting level like pg_stat_statements itself
+export interface StatementSnapshot {
+  name: string;
+  databaseId: string;
+  principalId?: string;
+  takenAt: number;
+  statsReset: string | null;
+  statements: Map<string, StatementStats>;
+}
+
+// Read the counters of every statement of the current database
+export async function snapshotStatements(
+  client: pg.ClientBase,
+  options: { name: string; databaseId: string; principalId?: string; field?: string },
+): Promise<StatementSnapshot> {
+  const source = await statementsSource(client, options.field);
+  const result = await client.query(statementsQuery(source));
+  const reset = source.info ? await client.query(`SELECT stats_reset::text AS stats_reset FROM ${source.info}`) : undefined;
+  return {
+    name: options.name,
+    databaseId: options.databaseId,
+    principalId: options.principalId,
+    takenAt: Date.now(),
+    statsReset: reset?.rows[0]?.stats_reset ?? null,
+    statements: new Map(result.rows.map((row) => [row.key, statementStats(row)])),
+  };
+}
+
+export interface RankedStatement extends StatementStats {
+  // Percent of the execution time of all statements in the database
+  shareOfTotalTime: number;
+  // With a baseline, the mean time of the statement's executions before it;
+  // null when the statement is new since
+  previousMeanTimeMs?: number | null;
+  meanTimeChangePercent?: number | null;
+}
+
+export interface TopQueriesReport {
+  orderBy: StatementOrder;
+  // Counters cover everything since the snapshot, or since pg_stat_statements was last reset
+  since: { snapshot: string; takenAt: string } | { statsReset: string | null };
+  countersReset: boolean;
+  statements: number;
+  totalTimeMs: number;
+  queries: RankedStatement[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Counters accumulated between two snapshots. Statements whose counters went
+// down were evicted or reset in between and are counted from zero.
+function difference(current: StatementStats, previous: StatementStats | undefined): StatementStats {
+  if (!previous || current.calls < previous.calls) {
+    return current;
+  }
+  const calls = current.calls - previous.calls;
+  const totalTimeMs = current.totalTimeMs - previous.totalTimeMs;
+  return {
+    ...current,
+    calls,
+    totalTimeMs,
+    meanTimeMs: calls > 0 ? totalTimeMs / calls : 0,
+    rows: current.rows - previous.rows,
+    sharedBlocksHit: current.sharedBlocksHit - previous.sharedBlocksHit,
+    sharedBlocksRead: current.sharedBlocksRead - previous.sharedBlocksRead,
+    sharedBlocksWritten: current.sharedBlocksWritten - previous.sharedBlocksWritten,
+  };
+}
+
+// Rank the statements of a snapshot, over all time or since a baseline
+export function rankStatements(
+  current: StatementSnapshot,
+  options: { orderBy: StatementOrder; limit: number; baseline?: StatementSnapshot },
+): TopQueriesReport {
+  const { baseline } = options;
+  // A reset of the whole view empties every counter the baseline holds
+  const countersReset = baseline !== undefined && baseline.statsReset !== current.statsReset;
+  const statements = Array.from(current.statements, ([key, stats]) => ({
+    key,
+    stats: baseline ? difference(stats, countersReset ? undefined : baseline.statements.get(key)) : stats,
+  })).filter(({ stats }) => stats.calls > 0);
+
+  const totalTimeMs = statements.reduce((total, { stats }) => total + stats.totalTimeMs, 0);
+  const metric = STATEMENT_ORDERS[options.orderBy];
+  const queries = statements
+    .sort((a, b) => metric(b.stats) - metric(a.stats))
+    .slice(0, options.limit)
+    .map(({ key, stats }): RankedStatement => {
+      const ranked: RankedStatement = {
+        ...stats,
+        totalTimeMs: round(stats.totalTimeMs),
+        meanTimeMs: round(stats.meanTimeMs),
+        shareOfTotalTime: totalTimeMs > 0 ? Math.round((stats.totalTimeMs / totalTimeMs) * 10000) / 100 : 0,
+      };
+      if (baseline) {
+        const previous = countersReset ? undefined : baseline.statements.get(key);
+        const before = previous && previous.calls > 0 ? previous.meanTimeMs : null;
+        ranked.previousMeanTimeMs = before === null ? null : round(before);
+        ranked.meanTimeChangePercent = before ? Math.round(((stats.meanTimeMs - before) / before) * 10000) / 100 : null;
+      }
+      return ranked;
+    });
+
+  return {
+    orderBy: options.orderBy,
+    since: baseline
+      ? { snapshot: baseline.name, takenAt: new Date(baseline.takenAt).toISOString() }
+      : { statsReset: current.statsReset },
+    countersReset,
+    statements: statements.length,
+    totalTimeMs: round(totalTimeMs),
+    queries,
+  };
+}
+
+// How long saved snapshots are kept
+export const SNAPSHOT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Most snapshots kept per database and principal; saving another drops the oldest
+const MAX_SNAPSHOTS = 20;
+
+// Statement snapshots saved by top_queries to diff against later, visible
+// only to the principal that saved them
+export class StatementSnapshotRegistry {
+  private readonly snapshots = new Map<string, StatementSnapshot>();
+
+  constructor(private readonly retentionMs: number = SNAPSHOT_RETENTION_MS) {}
+
+  save(snapshot: StatementSnapshot): void {
+    this.prune(Date.now());
+    const key = JSON.stringify([snapshot.databaseId, snapshot.principalId ?? null, snapshot.name]);
+    this.snapshots.delete(key);
+    this.snapshots.set(key, snapshot);
+    const saved = this.list(snapshot.databaseId, snapshot.principalId);
+    if (saved.length > MAX_SNAPSHOTS) {
+      const oldest = saved.reduce((a, b) => (a.takenAt <= b.takenAt ? a : b));
+      this.snapshots.delete(JSON.stringify([oldest.databaseId, oldest.principalId ?? null, oldest.name]));
+    }
+  }
+
+  get(databaseId: string, name: string, principalId: string | undefined, field?: string): StatementSnapshot {
+    this.prune(Date.now());
+    const snapshot = this.snapshots.get(JSON.stringify([databaseId, principalId ?? null, name]));
+    if (!snapshot) {
+      throw new SqlValidationError(
+        `No snapshot named '${name}' for database '${databaseId}'. Save one with save_snapshot first; snapshots expire after ${Math.round(this.retentionMs / (24 * 60 * 60 * 1000))} days.`,
+        field,
+        "not_found",
+      );
+    }
+    return snapshot;
+  }
+
+  list(databaseId: string, principalId: string | undefined): StatementSnapshot[] {
+    return Array.from(this.snapshots.values()).filter(
+      (snapshot) => snapshot.databaseId === databaseId && snapshot.principalId === principalId,
+    );
+  }
+
+  private prune(now: number): void {
+    for (const [key, snapshot] of this.snapshots) {
+      if (snapshot.takenAt + this.retentionMs <= now) {
+        this.snapshots.delete(key);
+      }
+    }
+  }
+}
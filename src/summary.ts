@@ -0,0 +1,366 @@
+import pg from "pg";
+import { ModelRelationship, ModelTable, SchemaModel, loadSchemaModel } from "./introspection.js";
+import { DatabasePolicy, assertTableAllowed, isTableAllowed } from "./policy.js";
+import { SqlValidationError, resolveTable } from "./sql.js";
+
+export type SummaryFormat = "markdown" | "mermaid" | "dbml";
+
+export const SUMMARY_FORMATS: Record<SummaryFormat, { mimeType: string }> = {
+  markdown: { mimeType: "text/markdown" },
+  mermaid: { mimeType: "text/vnd.mermaid" },
+  dbml: { mimeType: "text/plain" },
+};
+
+export const DEFAULT_SUMMARY_TOKENS = 4000;
+const MIN_SUMMARY_TOKENS = 100;
+const MAX_SUMMARY_DEPTH = 10;
+
+// What describe_database covers and how it is written, from tool arguments
+// or the query string of a postgres://<database>/describe/<format> URI
+export interface SummaryOptions {
+  format: SummaryFormat;
+  // Only tables in these schemas; every non-system schema when unset
+  schemas?: string[];
+  // Only this table and the tables within depth foreign keys of it
+  table?: string;
+  depth: number;
+  // Rough size limit of the markdown digest, at about four characters a token
+  maxTokens: number;
+}
+
+// Validate describe_database options, defaulting what is missing
+export function parseSummaryOptions(input: {
+  format?: unknown;
+  schemas?: unknown;
+  table?: unknown;
+  depth?: unknown;
+  max_tokens?: unknown;
+}): SummaryOptions {
+  const format = input.format ?? "markdown";
+  if (typeof format !== "string" || !(format in SUMMARY_FORMATS)) {
+    throw new SqlValidationError(`format must be one of: ${Object.keys(SUMMARY_FORMATS).join(", ")}`, "format");
+  }
+  if (
+    input.schemas !== undefined &&
+    (!Array.isArray(input.schemas) || input.schemas.length === 0 || input.schemas.some((schema) => typeof schema !== "string" || schema === ""))
+  ) {
+    throw new SqlValidationError("schemas must be a non-empty array of schema names", "schemas");
+  }
+  if (input.table !== undefined && (typeof input.table !== "string" || input.table === "")) {
+    throw new SqlValidationError("table must be a table name", "table");
+  }
+  const depth = input.depth ?? 1;
+  if (typeof depth !== "number" || !Number.isInteger(depth) || depth < 0 || depth > MAX_SUMMARY_DEPTH) {
+    throw new SqlValidationError(`depth must be an integer from 0 to ${MAX_SUMMARY_DEPTH}`, "depth");
+  }
+  const maxTokens = input.max_tokens ?? DEFAULT_SUMMARY_TOKENS;
+  if (typeof maxTokens !== "number" || !Number.isInteger(maxTokens) || maxTokens < MIN_SUMMARY_TOKENS) {
+    throw new SqlValidationError(`max_tokens must be an integer of at least ${MIN_SUMMARY_TOKENS}`, "max_tokens");
+  }
+  return {
+    format: format as SummaryFormat,
+    schemas: input.schemas as string[] | undefined,
+    table: input.table as string | undefined,
+    depth,
+    maxTokens,
+  };
+}
+
+// Describe the tables of a database, leaving out those the policy hides
+export async function summarizeDatabase(
+  client: pg.ClientBase,
+  options: SummaryOptions,
+  context: { title: string; policy?: DatabasePolicy },
+): Promise<string> {
+  let model = await loadSchemaModel(client, options.schemas);
+  model = restrictModel(model, (table) => isTableAllowed(context.policy, table));
+
+  const scope: string[] = [];
+  if (options.schemas) {
+    scope.push(`Schemas: ${options.schemas.join(", ")}`);
+  }
+  if (options.table !== undefined) {
+    const start = await resolveTable(client, options.table, { field: "table", kinds: ["r", "p", "f"] });
+    assertTableAllowed(context.policy, start, "table");
+    if (!model.tables.some((table) => table.schema === start.schema && table.name === start.name)) {
+      throw new SqlValidationError(`Table "${options.table}" is outside the requested schemas`, "table");
+    }
+    model = relatedTables(model, start, options.depth);
+    scope.push(`Tables within ${options.depth} foreign key${options.depth === 1 ? "" : "s"} of ${qualifiedName(start)}`);
+  }
+
+  switch (options.format) {
+    case "mermaid":
+      return renderMermaid(model);
+    case "dbml":
+      return renderDbml(model);
+    default:
+      return renderMarkdown(model, { title: context.title, scope, maxTokens: options.maxTokens });
+  }
+}
+
+function qualifiedName(table: { schema: string; name: string }): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function restrictModel(model: SchemaModel, keep: (table: ModelTable) => boolean): SchemaModel {
+  const tables = model.tables.filter(keep);
+  const kept = new Set(tables.map(qualifiedName));
+  return {
+    tables,
+    relationships: model.relationships.filter(
+      (relationship) =>
+        kept.has(qualifiedName({ schema: relationship.from.schema, name: relationship.from.table })) &&
+        kept.has(qualifiedName({ schema: relationship.to.schema, name: relationship.to.table })),
+    ),
+  };
+}
+
+// The start table and every table reachable from it through at most depth
+// foreign keys, followed in either direction, nearest first
+function relatedTables(model: SchemaModel, start: { schema: string; name: string }, depth: number): SchemaModel {
+  const distances = new Map([[qualifiedName(start), 0]]);
+  let frontier = [qualifiedName(start)];
+  for (let distance = 1; distance <= depth && frontier.length > 0; distance++) {
+    const next: string[] = [];
+    for (const relationship of model.relationships) {
+      const from = qualifiedName({ schema: relationship.from.schema, name: relationship.from.table });
+      const to = qualifiedName({ schema: relationship.to.schema, name: relationship.to.table });
+      for (const [near, far] of [[from, to], [to, from]]) {
+        if (frontier.includes(near) && !distances.has(far)) {
+          distances.set(far, distance);
+          next.push(far);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const restricted = restrictModel(model, (table) => distances.has(qualifiedName(table)));
+  restricted.tables.sort((a, b) => distances.get(qualifiedName(a))! - distances.get(qualifiedName(b))!);
+  return restricted;
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((column) => b.includes(column));
+}
+
+// True when each row of the referencing table matches at most one row, so
+// the relationship is one-to-one rather than one-to-many
+function isOneToOne(model: SchemaModel, relationship: ModelRelationship): boolean {
+  const table = model.tables.find((t) => t.schema === relationship.from.schema && t.name === relationship.from.table)!;
+  return [table.primaryKey, ...table.uniqueKeys].some((key) => key.length > 0 && sameColumns(key, relationship.from.columns));
+}
+
+// True when every referencing column is NOT NULL, so each row must have a parent
+function isMandatory(model: SchemaModel, relationship: ModelRelationship): boolean {
+  const table = model.tables.find((t) => t.schema === relationship.from.schema && t.name === relationship.from.table)!;
+  return relationship.from.columns.every((name) => table.columns.find((column) => column.name === name)?.nullable === false);
+}
+
+// Mermaid entity names are bare words, so tables are named without their
+// schema unless two schemas share a table name
+function mermaidEntityNames(model: SchemaModel): Map<string, string> {
+  const counts = new Map<string, number>();
+  for (const table of model.tables) {
+    counts.set(table.name, (counts.get(table.name) ?? 0) + 1);
+  }
+  return new Map(
+    model.tables.map((table) => {
+      const name = counts.get(table.name)! > 1 ? `${table.schema}__${table.name}` : table.name;
+      return [qualifiedName(table), mermaidWord(name)];
+    }),
+  );
+}
+
+function mermaidWord(text: string): string {
+  const word = text.replace(/[^A-Za-z0-9_()[\]-]/g, "_");
+  return /^[A-Za-z_*]/.test(word) ? word : `_${word}`;
+}
+
+function renderMermaid(model: SchemaModel): string {
+  const entities = mermaidEntityNames(model);
+  const lines = ["erDiagram"];
+  for (const table of model.tables) {
+    const foreignKeyColumns = new Set(
+      model.relationships
+        .filter((relationship) => relationship.from.schema === table.schema && relationship.from.table === table.name)
+        .flatMap((relationship) => relationship.from.columns),
+    );
+    lines.push(`  ${entities.get(qualifiedName(table))} {`);
+    for (const column of table.columns) {
+      const keys = [
+        table.primaryKey.includes(column.name) ? "PK" : undefined,
+        foreignKeyColumns.has(column.name) ? "FK" : undefined,
+        table.uniqueKeys.some((key) => key.length === 1 && key[0] === column.name) ? "UK" : undefined,
+      ].filter(Boolean);
+      const comment = column.comment ? ` "${column.comment.replace(/["\r\n]+/g, " ")}"` : "";
+      lines.push(`    ${mermaidWord(column.dataType)} ${mermaidWord(column.name)}${keys.length ? ` ${keys.join(", ")}` : ""}${comment}`);
+    }
+    lines.push("  }");
+  }
+  for (const relationship of model.relationships) {
+    const parent = entities.get(qualifiedName({ schema: relationship.to.schema, name: relationship.to.table }));
+    const child = entities.get(qualifiedName({ schema: relationship.from.schema, name: relationship.from.table }));
+    const parentSide = isMandatory(model, relationship) ? "||" : "|o";
+    const childSide = isOneToOne(model, relationship) ? "o|" : "o{";
+    lines.push(`  ${parent} ${parentSide}--${childSide} ${child} : "${relationship.from.columns.join(", ")}"`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+function dbmlName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function dbmlString(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/[\r\n]+/g, " ")}'`;
+}
+
+function dbmlColumns(table: { schema: string; table: string; columns: string[] }): string {
+  const columns = table.columns.map(dbmlName);
+  return `${dbmlName(table.schema)}.${dbmlName(table.table)}.${columns.length === 1 ? columns[0] : `(${columns.join(", ")})`}`;
+}
+
+function renderDbml(model: SchemaModel): string {
+  const blocks: string[] = [];
+  for (const table of model.tables) {
+    const lines = [`Table ${dbmlName(table.schema)}.${dbmlName(table.name)} {`];
+    for (const column of table.columns) {
+      const settings = [
+        table.primaryKey.length === 1 && table.primaryKey[0] === column.name ? "pk" : undefined,
+        column.nullable ? undefined : "not null",
+        table.uniqueKeys.some((key) => key.length === 1 && key[0] === column.name) ? "unique" : undefined,
+        column.comment ? `note: ${dbmlString(column.comment)}` : undefined,
+      ].filter(Boolean);
+      const type = /^[\w.]+(\([\d,]*\))?(\[\])*$/.test(column.dataType) ? column.dataType : `"${column.dataType}"`;
+      lines.push(`  ${dbmlName(column.name)} ${type}${settings.length ? ` [${settings.join(", ")}]` : ""}`);
+    }
+    const indexes = [
+      ...(table.primaryKey.length > 1 ? [`(${table.primaryKey.map(dbmlName).join(", ")}) [pk]`] : []),
+      ...table.uniqueKeys.filter((key) => key.length > 1).map((key) => `(${key.map(dbmlName).join(", ")}) [unique]`),
+    ];
+    if (indexes.length > 0) {
+      lines.push("", "  indexes {", ...indexes.map((index) => `    ${index}`), "  }");
+    }
+    if (table.comment) {
+      lines.push("", `  Note: ${dbmlString(table.comment)}`);
+    }
+    lines.push("}");
+    blocks.push(lines.join("\n"));
+  }
+  const refs = model.relationships.map((relationship) => {
+    const settings = relationship.onDelete === "NO ACTION" ? "" : ` [delete: ${relationship.onDelete.toLowerCase()}]`;
+    const cardinality = isOneToOne(model, relationship) ? "-" : ">";
+    return `Ref ${dbmlName(relationship.name)}: ${dbmlColumns(relationship.from)} ${cardinality} ${dbmlColumns(relationship.to)}${settings}`;
+  });
+  if (refs.length > 0) {
+    blocks.push(refs.join("\n"));
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+// Rough token count of text, at about four characters a token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Kept free for the closing line naming the tables that didn't fit
+const OMITTED_TABLES_TOKENS = 40;
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function markdownTable(model: SchemaModel, table: ModelTable): string {
+  const outgoing = model.relationships.filter(
+    (relationship) => relationship.from.schema === table.schema && relationship.from.table === table.name,
+  );
+  const incoming = model.relationships.filter(
+    (relationship) => relationship.to.schema === table.schema && relationship.to.table === table.name,
+  );
+  const target = (relationship: ModelRelationship) =>
+    `${relationship.to.schema}.${relationship.to.table}(${relationship.to.columns.join(", ")})`;
+
+  const lines = [`## ${qualifiedName(table)}${table.estimatedRows !== null ? ` (~${table.estimatedRows} rows)` : ""}`];
+  if (table.comment) {
+    lines.push(table.comment);
+  }
+  for (const column of table.columns) {
+    const notes = [
+      column.nullable ? undefined : "not null",
+      table.primaryKey.length === 1 && table.primaryKey[0] === column.name ? "PK" : undefined,
+      table.uniqueKeys.some((key) => key.length === 1 && key[0] === column.name) ? "unique" : undefined,
+      ...outgoing
+        .filter((relationship) => relationship.from.columns.length === 1 && relationship.from.columns[0] === column.name)
+        .map((relationship) => `→ ${target(relationship)}`),
+    ].filter(Boolean);
+    lines.push(`- ${column.name} ${column.dataType}${notes.length ? ` ${notes.join(", ")}` : ""}${column.comment ? ` — ${column.comment}` : ""}`);
+  }
+  if (table.primaryKey.length > 1) {
+    lines.push(`- PK (${table.primaryKey.join(", ")})`);
+  }
+  for (const key of table.uniqueKeys.filter((key) => key.length > 1)) {
+    lines.push(`- UNIQUE (${key.join(", ")})`);
+  }
+  for (const relationship of outgoing.filter((relationship) => relationship.from.columns.length > 1)) {
+    lines.push(`- FK (${relationship.from.columns.join(", ")}) → ${target(relationship)}`);
+  }
+  if (incoming.length > 0) {
+    lines.push(
+      `Referenced by: ${incoming
+        .map((relationship) => `${relationship.from.schema}.${relationship.from.table}(${relationship.from.columns.join(", ")})`)
+        .join(", ")}`,
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+// A digest of every table that fits the token budget; tables past the
+// budget are named at the end, as many as still fit
+function renderMarkdown(
+  model: SchemaModel,
+  options: { title: string; scope: string[]; maxTokens: number },
+): string {
+  const header = [
+    `# ${options.title}`,
+    "",
+    ...options.scope,
+    `${plural(model.tables.length, "table")}, ${plural(model.relationships.length, "foreign key")}`,
+    "",
+  ].join("\n");
+  const sections: string[] = [header];
+  let tokens = estimateTokens(header);
+  let shown = 0;
+  for (const [index, table] of model.tables.entries()) {
+    const section = markdownTable(model, table);
+    const reserved = index < model.tables.length - 1 ? OMITTED_TABLES_TOKENS : 0;
+    if (tokens + estimateTokens(section) > options.maxTokens - reserved) {
+      break;
+    }
+    sections.push(section);
+    tokens += estimateTokens(section);
+    shown++;
+  }
+
+  const omitted = model.tables.slice(shown).map(qualifiedName);
+  if (omitted.length > 0) {
+    // The rest of the line takes about 120 characters
+    let budget = (options.maxTokens - tokens) * 4 - 120;
+    const names: string[] = [];
+    for (const name of omitted) {
+      budget -= name.length + 2;
+      if (budget < 0) {
+        break;
+      }
+      names.push(name);
+    }
+    const rest = omitted.length - names.length;
+    sections.push(
+      `_${plural(omitted.length, "more table")} not shown to stay within ${options.maxTokens} tokens${
+        names.length ? `: ${names.join(", ")}${rest > 0 ? ` and ${rest} more` : ""}` : ""
+      }. Raise max_tokens or narrow with schemas or table._\n`,
+    );
+  }
+  return sections.join("\n");
+}
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "async_hooks";
+import pg from "pg";
+import type { OpenTransaction } from "./transactions.js";
+
+// Per-database timeout defaults, declared in databases.json under "timeouts".
+// 0 disables a timeout, as it does in PostgreSQL.
+export interface TimeoutSettings {
+  statementTimeoutMs: number;
+  lockTimeoutMs: number;
+}
+
+export const DEFAULT_TIMEOUTS: TimeoutSettings = {
+  statementTimeoutMs: 60 * 1000,
+  lockTimeoutMs: 10 * 1000,
+};
+
+// Settings of the tool call currently being handled
+export interface CallContext {
+  // Per-call statement timeout from the tool's timeout_ms argument
+  timeoutMs?: number;
+  // Aborted when the client cancels the MCP request
+  signal?: AbortSignal;
+  // Explicit transaction named by the tool's transaction_id argument
+  transaction?: OpenTransaction;
+}
+
+export const callContext = new AsyncLocalStorage<CallContext>();
+
+// Merge configured timeouts over the defaults, rejecting invalid values
+export function resolveTimeouts(timeouts: Partial<TimeoutSettings> | undefined, databaseId: string): TimeoutSettings {
+  const resolved = { ...DEFAULT_TIMEOUTS, ...timeouts };
+  for (const [key, value] of Object.entries(resolved)) {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new Error(`timeouts for database '${databaseId}': '${key}' must be a non-negative integer`);
+    }
+  }
+  return resolved;
+}
+
+// Apply the current call's timeouts to a client and cancel its running query
+// if the call is cancelled. Returns a function that stops listening for
+// cancellation; call it before the client goes back to the pool.
+export async function applyCallSettings(
+  client: pg.ClientBase,
+  connectionString: string,
+  defaults: TimeoutSettings,
+): Promise<() => void> {
+  const context = callContext.getStore() ?? {};
+  const statementTimeout = context.timeoutMs ?? defaults.statementTimeoutMs;
+  // Waiting on a lock longer than the statement may run is pointless
+  const lockTimeout = statementTimeout > 0 && (defaults.lockTimeoutMs === 0 || defaults.lockTimeoutMs > statementTimeout)
+    ? statementTimeout
+    : defaults.lockTimeoutMs;
+
+  const result = await client.query(
+    `SELECT set_config('statement_timeout', $1, false),
+            set_config('lock_timeout', $2, false),
+            pg_backend_pid() AS pid`,
+    [`${statementTimeout}ms`, `${lockTimeout}ms`],
+  );
+
+  const signal = context.signal;
+  if (!signal) {
+    return () => {};
+  }
+
+  const pid: number = result.rows[0].pid;
+  const onAbort = () => {
+    cancelBackend(connectionString, pid).catch((error) =>
+      console.error(`Error cancelling backend ${pid}:`, error),
+    );
+  };
+  if (signal.aborted) {
+    onAbort();
+  }
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
+// Cancel a backend's running query from a separate connection, so it works
+// even when every pooled connection is busy
+async function cancelBackend(connectionString: string, pid: number): Promise<void> {
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+  try {
+    await client.query("SELECT pg_cancel_backend($1)", [pid]);
+  } finally {
+    await client.end();
+  }
+}
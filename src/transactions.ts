@@ -0,0 +1,295 @@
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { SqlValidationError, quoteIdentifier } from "./sql.js";
+
+// Limits for explicit transactions, declared per database in databases.json
+// under "transactions"
+export interface TransactionLimits {
+  // Open transactions are rolled back after this long without a tool call
+  idleTimeoutMs: number;
+  // Each open transaction holds a pooled connection; beyond this
+  // begin_transaction is refused
+  maxOpenTransactions: number;
+}
+
+export const DEFAULT_TRANSACTION_LIMITS: TransactionLimits = {
+  idleTimeoutMs: 60 * 1000,
+  maxOpenTransactions: 5,
+};
+
+export const ISOLATION_LEVELS = ["read committed", "repeatable read", "serializable"];
+
+// Merge configured limits over the defaults, rejecting invalid values
+export function resolveTransactionLimits(limits: Partial<TransactionLimits> | undefined, databaseId: string): TransactionLimits {
+  const resolved = { ...DEFAULT_TRANSACTION_LIMITS, ...limits };
+  for (const [key, value] of Object.entries(resolved)) {
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      throw new Error(`transactions for database '${databaseId}': '${key}' must be a positive integer`);
+    }
+  }
+  return resolved;
+}
+
+export interface OpenTransaction {
+  id: string;
+  client: pg.PoolClient;
+  databaseId: string;
+  principalId?: string;
+  // MCP session that began the transaction; it is rolled back when the session closes
+  sessionId?: string;
+  readOnly: boolean;
+  limits: TransactionLimits;
+  startedAt: number;
+  lastUsed: number;
+  // True while a tool call is running inside the transaction
+  busy: boolean;
+  // Stops the current call's cancellation listener; see lend()
+  detach?: () => void;
+}
+
+// Clients that belong to an open transaction. Code that would normally run
+// BEGIN/COMMIT on a pooled client uses savepoints on these instead.
+const transactionClients = new WeakSet<pg.ClientBase>();
+
+export function isTransactionClient(client: pg.ClientBase): boolean {
+  return transactionClients.has(client);
+}
+
+export interface TransactionScope {
+  begin(): Promise<void>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+// Make a unit of work atomic on any client: a transaction of its own on a
+// plain pooled client, or a savepoint inside an open transaction so that
+// committing or rolling back the unit leaves the outer transaction alone.
+// A read-only unit inside a read-write transaction sets its savepoint
+// read-only; it has nothing to keep, so committing it rolls the savepoint
+// back too, which restores the transaction's mode.
+export function transactionScope(client: pg.ClientBase, options: { readOnly?: boolean } = {}): TransactionScope {
+  if (!isTransactionClient(client)) {
+    return {
+      begin: async () => {
+        await client.query(options.readOnly ? "BEGIN TRANSACTION READ ONLY" : "BEGIN");
+      },
+      commit: async () => {
+        await client.query("COMMIT");
+      },
+      rollback: async () => {
+        await client.query("ROLLBACK");
+      },
+    };
+  }
+
+  const savepoint = quoteIdentifier(`mcp_savepoint_${randomUUID().replace(/-/g, "")}`);
+  const rollback = async () => {
+    await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+    await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+  };
+  return {
+    begin: async () => {
+      await client.query(`SAVEPOINT ${savepoint}`);
+      if (options.readOnly) {
+        await client.query("SET LOCAL transaction_read_only = on");
+      }
+    },
+    commit: options.readOnly
+      ? rollback
+      : async () => {
+          await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+        },
+    rollback,
+  };
+}
+
+// Transactions spanning several tool calls. Each one holds a pooled
+// connection until it is committed, rolled back, or abandoned: idle
+// transactions and those of closed sessions are rolled back.
+export class TransactionRegistry {
+  private readonly transactions = new Map<string, OpenTransaction>();
+  private readonly releases = new Map<string, (err?: Error | boolean) => void>();
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor(
+    // Called before a transaction ends, e.g. to close cursors opened in it
+    private readonly beforeEnd: (client: pg.PoolClient) => Promise<void> = async () => {},
+    sweepIntervalMs: number = 10 * 1000,
+  ) {
+    this.sweeper = setInterval(() => {
+      this.rollbackIdle().catch((error) => console.error("Error rolling back idle transactions:", error));
+    }, sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  // Start a transaction on the client, taking ownership of it
+  async begin(
+    client: pg.PoolClient,
+    options: {
+      databaseId: string;
+      principalId?: string;
+      sessionId?: string;
+      readOnly: boolean;
+      isolationLevel?: string;
+      limits: TransactionLimits;
+    },
+  ): Promise<OpenTransaction> {
+    const open = Array.from(this.transactions.values()).filter((t) => t.databaseId === options.databaseId);
+    if (open.length >= options.limits.maxOpenTransactions) {
+      client.release();
+      throw new SqlValidationError(
+        `Database '${options.databaseId}' already has ${open.length} open transactions; commit or roll one back first`,
+        "database",
+        "too_many_transactions",
+      );
+    }
+    if (options.isolationLevel !== undefined && !ISOLATION_LEVELS.includes(options.isolationLevel)) {
+      client.release();
+      throw new SqlValidationError(`isolation_level must be one of: ${ISOLATION_LEVELS.join(", ")}`, "isolation_level");
+    }
+
+    try {
+      const modes = [
+        options.isolationLevel ? `ISOLATION LEVEL ${options.isolationLevel.toUpperCase()}` : undefined,
+        options.readOnly ? "READ ONLY" : "READ WRITE",
+      ].filter((mode) => mode !== undefined);
+      await client.query(`BEGIN TRANSACTION ${modes.join(" ")}`);
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+      throw error;
+    }
+
+    const now = Date.now();
+    const transaction: OpenTransaction = {
+      id: randomUUID(),
+      client,
+      databaseId: options.databaseId,
+      principalId: options.principalId,
+      sessionId: options.sessionId,
+      readOnly: options.readOnly,
+      limits: options.limits,
+      startedAt: now,
+      lastUsed: now,
+      busy: false,
+    };
+
+    // Tool calls "release" the client when they finish; keep it until the transaction ends
+    this.releases.set(transaction.id, client.release.bind(client));
+    client.release = () => {
+      transaction.detach?.();
+      transaction.detach = undefined;
+    };
+    transactionClients.add(client);
+    this.transactions.set(transaction.id, transaction);
+    return transaction;
+  }
+
+  // Reserve a transaction for one tool call. Transactions are only visible to
+  // the principal and session that began them, and serve one call at a time.
+  acquire(id: unknown, principalId: string | undefined, sessionId: string | undefined): OpenTransaction {
+    const transaction = this.get(id, principalId, sessionId);
+    if (transaction.busy) {
+      throw new SqlValidationError(
+        "Transaction is in use by another tool call; wait for it to finish",
+        "transaction_id",
+        "transaction_busy",
+      );
+    }
+    transaction.busy = true;
+    transaction.lastUsed = Date.now();
+    return transaction;
+  }
+
+  // End a tool call started with acquire()
+  finish(transaction: OpenTransaction): void {
+    transaction.busy = false;
+    transaction.lastUsed = Date.now();
+  }
+
+  // Hand the transaction's client to a tool call. detach stops the call's
+  // cancellation listener when the call releases the client.
+  lend(transaction: OpenTransaction, detach: () => void): pg.PoolClient {
+    transaction.detach?.();
+    transaction.detach = detach;
+    return transaction.client;
+  }
+
+  async commit(id: unknown, principalId: string | undefined, sessionId: string | undefined): Promise<OpenTransaction> {
+    const transaction = this.acquire(id, principalId, sessionId);
+    await this.end(transaction, "COMMIT");
+    return transaction;
+  }
+
+  async rollback(id: unknown, principalId: string | undefined, sessionId: string | undefined): Promise<OpenTransaction> {
+    const transaction = this.acquire(id, principalId, sessionId);
+    await this.end(transaction, "ROLLBACK");
+    return transaction;
+  }
+
+  // Roll back every transaction begun in a session that has closed
+  async rollbackSession(sessionId: string): Promise<void> {
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (transaction.sessionId === sessionId) {
+        await this.end(transaction, "ROLLBACK").catch((error) =>
+          console.error(`Error rolling back transaction ${transaction.id}:`, error),
+        );
+      }
+    }
+  }
+
+  // Roll back every transaction that has not been used within its idle timeout
+  async rollbackIdle(now: number = Date.now()): Promise<void> {
+    for (const transaction of Array.from(this.transactions.values())) {
+      if (!transaction.busy && now - transaction.lastUsed >= transaction.limits.idleTimeoutMs) {
+        await this.end(transaction, "ROLLBACK").catch((error) =>
+          console.error(`Error rolling back idle transaction ${transaction.id}:`, error),
+        );
+      }
+    }
+  }
+
+  private get(id: unknown, principalId: string | undefined, sessionId: string | undefined): OpenTransaction {
+    const transaction = typeof id === "string" ? this.transactions.get(id) : undefined;
+    if (
+      !transaction ||
+      transaction.principalId !== principalId ||
+      (transaction.sessionId !== undefined && transaction.sessionId !== sessionId)
+    ) {
+      throw new SqlValidationError(
+        "Transaction not found. It may have been committed, rolled back, or rolled back after being idle.",
+        "transaction_id",
+        "not_found",
+      );
+    }
+    return transaction;
+  }
+
+  private async end(transaction: OpenTransaction, statement: "COMMIT" | "ROLLBACK"): Promise<void> {
+    this.transactions.delete(transaction.id);
+    const release = this.releases.get(transaction.id)!;
+    this.releases.delete(transaction.id);
+    try {
+      await this.beforeEnd(transaction.client);
+      // COMMIT of a transaction that hit an error rolls it back instead
+      const result = await transaction.client.query(statement);
+      transactionClients.delete(transaction.client);
+      transaction.detach?.();
+      release();
+      if (statement === "COMMIT" && result.command === "ROLLBACK") {
+        throw new SqlValidationError(
+          "Transaction was rolled back because a statement in it failed",
+          "transaction_id",
+          "transaction_aborted",
+        );
+      }
+    } catch (error) {
+      if (transactionClients.has(transaction.client)) {
+        // Don't hand a connection in an unknown state back to the pool
+        transactionClients.delete(transaction.client);
+        transaction.detach?.();
+        release(error instanceof Error ? error : true);
+      }
+      throw error;
+    }
+  }
+}